@@ -172,10 +172,11 @@ const AutoChessControls = () => {
                   <SelectContent>
                     <SelectItem value="plains">平原</SelectItem>
                     <SelectItem value="forest">森林</SelectItem>
-                    <SelectItem value="mountain">山地</SelectItem>
+                    <SelectItem value="mountains">山地</SelectItem>
                     <SelectItem value="desert">沙漠</SelectItem>
                     <SelectItem value="swamp">沼泽</SelectItem>
                     <SelectItem value="fire">火山</SelectItem>
+                    <SelectItem value="water">水域</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -271,7 +272,7 @@ const AutoChessControls = () => {
                   <h3 className="text-sm font-medium">战斗日志</h3>
                   <div className="max-h-32 overflow-y-auto bg-muted/30 rounded-md p-2 text-xs space-y-1">
                     {battleState.log.length > 0 ? (
-                      battleState.log.slice().reverse().map((entry, index) => (
+                      battleState.log.map((entry, index) => (
                         <div key={index} className="text-xs">
                           <span className="text-muted-foreground">回合 {entry.round}:</span> {entry.message}
                         </div>
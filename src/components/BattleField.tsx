@@ -174,6 +174,8 @@ const BattleField = () => {
                       <div>{selectedUnit.profession}</div>
                       <div>等级:</div>
                       <div>{selectedUnit.level}</div>
+                      <div>星级:</div>
+                      <div>{'★'.repeat(selectedUnit.stars ?? 1)}</div>
                       <div>队伍:</div>
                       <div>{selectedUnit.team === 'alpha' ? 'A队' : 'B队'}</div>
                     </div>
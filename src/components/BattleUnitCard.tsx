@@ -91,6 +91,7 @@ const BattleUnitCard: React.FC<BattleUnitCardProps> = ({ unit, isSelected, onCli
         <div className="flex justify-between items-center">
           <Badge variant="outline" className="text-xs">
             {unit.type || "单位"} Lv.{unit.level}
+            <span className="ml-1 text-yellow-500">{'★'.repeat(unit.stars ?? 1)}</span>
           </Badge>
           <Badge 
             className={`text-xs text-white ${getProfessionColor(unit.profession)}`}
@@ -0,0 +1,162 @@
+import React, { useMemo } from 'react';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { BehaviorNode, Unit } from '@/types/battle';
+import { parseBehaviorTree, CONDITION_LABELS, TARGET_LABELS } from '@/lib/simulation/BehaviorTree';
+import { AlertCircle, CheckCircle } from 'lucide-react';
+
+interface BehaviorTreeEditorProps {
+  unit: Unit;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+// 常用行为树模板
+const TEMPLATES: { name: string; tree: BehaviorNode }[] = [
+  {
+    name: '治疗优先',
+    tree: {
+      type: 'selector',
+      children: [
+        {
+          type: 'sequence',
+          children: [
+            { type: 'condition', condition: 'allyHpBelow', value: 0.5 },
+            { type: 'action', action: 'heal', target: 'lowestHpAlly' }
+          ]
+        },
+        { type: 'action', action: 'attack', target: 'lowestHpEnemy' }
+      ]
+    }
+  },
+  {
+    name: '技能爆发',
+    tree: {
+      type: 'selector',
+      children: [
+        {
+          type: 'sequence',
+          children: [
+            { type: 'condition', condition: 'skillReady' },
+            { type: 'condition', condition: 'enemyInRange' },
+            { type: 'action', action: 'skill', target: 'lowestHpEnemy' }
+          ]
+        },
+        {
+          type: 'sequence',
+          children: [
+            { type: 'condition', condition: 'selfHpBelow', value: 0.3 },
+            { type: 'action', action: 'retreat' }
+          ]
+        },
+        { type: 'action', action: 'attack', target: 'nearestEnemy' }
+      ]
+    }
+  }
+];
+
+const describeNode = (node: BehaviorNode, skillName: (id: string) => string): string => {
+  switch (node.type) {
+    case 'selector':
+      return '选择 (任一成功)';
+    case 'sequence':
+      return '顺序 (全部成功)';
+    case 'condition': {
+      const label = CONDITION_LABELS[node.condition];
+      if (node.condition === 'skillReady') {
+        return `条件: ${node.skillId ? `技能 ${skillName(node.skillId)} 可用` : label}`;
+      }
+      if (node.value === undefined) return `条件: ${label}`;
+      return node.condition === 'manaAtLeast'
+        ? `条件: ${label} ${node.value}`
+        : `条件: ${label} ${Math.round(node.value * 100)}%`;
+    }
+    case 'action': {
+      const skill = node.skillId ? ` ${skillName(node.skillId)}` : '';
+      const target = node.target ? ` → ${TARGET_LABELS[node.target]}` : '';
+      return `行动: ${node.action}${skill}${target}`;
+    }
+  }
+};
+
+const BehaviorTreeEditor: React.FC<BehaviorTreeEditorProps> = ({ unit, value, onChange }) => {
+  const { tree, errors } = useMemo(() => parseBehaviorTree(value, unit), [value, unit]);
+
+  const skillName = (id: string) => unit.skills?.find(skill => skill.id === id)?.name ?? id;
+
+  const renderNode = (node: BehaviorNode, depth: number, key: string): React.ReactNode => (
+    <div key={key}>
+      <div className="text-xs py-0.5" style={{ paddingLeft: depth * 16 }}>
+        {describeNode(node, skillName)}
+      </div>
+      {(node.type === 'selector' || node.type === 'sequence') &&
+        node.children.map((child, index) => renderNode(child, depth + 1, `${key}-${index}`))}
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="edit-unit-behavior-tree">行为树 (JSON)</Label>
+        <div className="flex gap-1">
+          {TEMPLATES.map(template => (
+            <Button
+              key={template.name}
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => onChange(JSON.stringify(template.tree, null, 2))}
+            >
+              {template.name}
+            </Button>
+          ))}
+          <Button type="button" variant="ghost" size="sm" onClick={() => onChange('')}>
+            清空
+          </Button>
+        </div>
+      </div>
+
+      <Textarea
+        id="edit-unit-behavior-tree"
+        className="font-mono text-xs min-h-[180px]"
+        placeholder="留空则使用默认AI"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+      />
+
+      {errors.length > 0 ? (
+        <div className="space-y-1">
+          {errors.map(error => (
+            <div key={error} className="flex items-start gap-1 text-xs text-destructive">
+              <AlertCircle className="h-3 w-3 mt-0.5 shrink-0" />
+              <span>{error}</span>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <CheckCircle className="h-3 w-3" />
+          {tree ? '行为树合法' : '未设置行为树，使用默认AI'}
+          {unit.skills && unit.skills.length > 0 && (
+            <span className="flex gap-1">
+              可用技能:
+              {unit.skills.map(skill => (
+                <Badge key={skill.id} variant="secondary">{skill.id}</Badge>
+              ))}
+            </span>
+          )}
+        </div>
+      )}
+
+      {tree && (
+        <div className="rounded border p-2 bg-muted/30">
+          {renderNode(tree, 0, 'root')}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BehaviorTreeEditor;
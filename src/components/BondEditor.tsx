@@ -22,11 +22,14 @@ const STAT_TARGETS = [
   { value: 'magicResistance', label: '魔法抗性' },
   { value: 'speed', label: '速度' },
   { value: 'maxHP', label: '生命值' },
-  { value: 'critRate', label: '暴击率' }
+  { value: 'critRate', label: '暴击率' },
+  { value: 'lifesteal', label: '吸血' },
+  { value: 'thorns', label: '反伤' },
+  { value: 'shield', label: '初始护盾' }
 ];
 
 type EffectType = 'buff' | 'debuff';
-type TargetType = 'attack' | 'defense' | 'magicPower' | 'magicResistance' | 'speed' | 'maxHP' | 'critRate';
+type TargetType = 'attack' | 'defense' | 'magicPower' | 'magicResistance' | 'speed' | 'maxHP' | 'critRate' | 'lifesteal' | 'thorns' | 'shield';
 
 interface BondEffect {
   type: EffectType;
@@ -10,7 +10,9 @@ import { Input } from '@/components/ui/input';
 import { Slider } from '@/components/ui/slider';
 import { Separator } from '@/components/ui/separator';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
+import { DAMAGE_FORMULAS, DamageFormulaId } from '@/lib/simulation/DamageFormula';
 import { Settings, Save, RotateCcw, Flag, Activity, Lightbulb, Package } from 'lucide-react';
 
 const ConfigManager: React.FC = () => {
@@ -30,6 +32,15 @@ const ConfigManager: React.FC = () => {
     });
   };
   
+  // 切换伤害公式
+  const changeDamageFormula = (formula: DamageFormulaId) => {
+    configManager.updateDamageFormula(formula);
+    toast({
+      title: "已切换伤害公式",
+      description: `当前使用${DAMAGE_FORMULAS[formula].name}`,
+    });
+  };
+  
   // 切换特性开关
   const toggleFeature = (key: string, enabled: boolean) => {
     configManager.toggleFeatureFlag(key, enabled);
@@ -147,6 +158,28 @@ const ConfigManager: React.FC = () => {
                 </div>
               </div>
               
+              <Separator className="my-4" />
+              
+              <div className="space-y-2">
+                <Label htmlFor="damageFormula">伤害公式</Label>
+                <Select 
+                  value={config.damageFormula} 
+                  onValueChange={(value) => changeDamageFormula(value as DamageFormulaId)}
+                >
+                  <SelectTrigger id="damageFormula" className="w-full sm:w-64">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.values(DAMAGE_FORMULAS).map(formula => (
+                      <SelectItem key={formula.id} value={formula.id}>{formula.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-sm text-muted-foreground">
+                  {DAMAGE_FORMULAS[config.damageFormula].description}
+                </p>
+              </div>
+              
               <div className="mt-4 flex justify-end">
                 <Button onClick={saveBalanceParams} className="w-full sm:w-auto">
                   <Save className="mr-2 h-4 w-4" />
@@ -8,6 +8,7 @@ import BalanceAnalyzer from '@/components/BalanceAnalyzer';
 import EconomyPanel from '@/components/EconomyPanel';
 import ConfigManager from '@/components/ConfigManager';
 import FactionEditor from '@/components/FactionEditor';
+import ItemEditor from '@/components/ItemEditor';
 import { Button } from '@/components/ui/button';
 import { useGameContext } from '@/context/GameContext';
 import { 
@@ -21,7 +22,8 @@ import {
   Save, 
   Download,
   Info,
-  AlertTriangle
+  AlertTriangle,
+  Package
 } from 'lucide-react';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { useToast } from '@/hooks/use-toast';
@@ -83,6 +85,7 @@ const Dashboard: React.FC = () => {
     { id: 'units', label: '单位创建', icon: <Shield className="w-4 h-4" />, description: '创建、编辑和管理游戏中的各类单位' },
     { id: 'bonds', label: '羁绊编辑', icon: <Link2 className="w-4 h-4" />, description: '设计单位之间的羁绊关系和增益效果' },
     { id: 'factions', label: '派系编辑', icon: <Users className="w-4 h-4" />, description: '管理游戏中的不同派系及其特性' },
+    { id: 'items', label: '装备编辑', icon: <Package className="w-4 h-4" />, description: '设计装备属性、套装效果与单位适配系数' },
     { id: 'balance', label: '平衡分析', icon: <BarChart className="w-4 h-4" />, description: '通过数据分析优化游戏平衡性' },
     { id: 'economy', label: '经济系统', icon: <Coins className="w-4 h-4" />, description: '设计游戏中的经济机制与资源管理' },
     { id: 'config', label: '配置管理', icon: <Settings className="w-4 h-4" />, description: '调整游戏的全局配置与设置' },
@@ -176,6 +179,10 @@ const Dashboard: React.FC = () => {
               <FactionEditor />
             </TabsContent>
             
+            <TabsContent value="items" className="m-0">
+              <ItemEditor />
+            </TabsContent>
+            
             <TabsContent value="balance" className="m-0">
               <BalanceAnalyzer />
             </TabsContent>
@@ -6,9 +6,10 @@ import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Plus, Trash, Save, X, Edit } from 'lucide-react';
+import { Plus, Trash, Save, X, Edit, AlertTriangle } from 'lucide-react';
 import { useGameContext, Faction } from '@/context/GameContext';
 import { useToast } from '@/hooks/use-toast';
+import { parseMechanicTrigger, COMBAT_EVENT_TYPES } from '@/lib/simulation/TriggerSystem';
 
 const STAT_TARGETS = [
   { value: 'attack', label: '攻击力' },
@@ -17,11 +18,14 @@ const STAT_TARGETS = [
   { value: 'magicResistance', label: '魔法抗性' },
   { value: 'speed', label: '速度' },
   { value: 'maxHP', label: '生命值' },
-  { value: 'critRate', label: '暴击率' }
+  { value: 'critRate', label: '暴击率' },
+  { value: 'lifesteal', label: '吸血' },
+  { value: 'thorns', label: '反伤' },
+  { value: 'shield', label: '初始护盾' }
 ];
 
 type EffectType = 'buff' | 'debuff';
-type TargetType = 'attack' | 'defense' | 'magicPower' | 'magicResistance' | 'speed' | 'maxHP' | 'critRate';
+type TargetType = 'attack' | 'defense' | 'magicPower' | 'magicResistance' | 'speed' | 'maxHP' | 'critRate' | 'lifesteal' | 'thorns' | 'shield';
 
 interface FactionEffect {
   type: EffectType;
@@ -29,6 +33,122 @@ interface FactionEffect {
   target: TargetType;
 }
 
+type FactionMechanic = NonNullable<Faction['specialMechanics']>[number];
+
+const DEFAULT_MECHANIC: FactionMechanic = {
+  name: '',
+  description: '',
+  triggerCondition: 'onKill',
+  effect: 'buff:attack:0.2:2'
+};
+
+// 无法解析的机制在战斗中不会生效，编辑器中标出
+const isMechanicValid = (mechanic: FactionMechanic): boolean =>
+  parseMechanicTrigger('faction', mechanic) !== null;
+
+// 派系特殊机制编辑: 触发条件为战斗事件名 (hpBelowThreshold 可附带阈值)，效果为 "类型[:属性]:数值[:持续回合]"，多个效果用 ";" 分隔
+const MechanicListEditor: React.FC<{
+  idPrefix: string;
+  mechanics: FactionMechanic[];
+  onChange: (mechanics: FactionMechanic[]) => void;
+}> = ({ idPrefix, mechanics, onChange }) => {
+  const updateMechanic = (index: number, field: keyof FactionMechanic, value: string) => {
+    const updated = [...mechanics];
+    updated[index] = {
+      ...updated[index],
+      [field]: field === 'scalingFactor' ? (value === '' ? undefined : parseFloat(value)) : value
+    };
+    onChange(updated);
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-2">
+        <Label>特殊机制</Label>
+        <Button size="sm" variant="outline" onClick={() => onChange([...mechanics, { ...DEFAULT_MECHANIC }])}>
+          <Plus className="h-3 w-3 mr-1" />
+          添加机制
+        </Button>
+      </div>
+
+      {mechanics.length > 0 && (
+        <p className="text-xs text-muted-foreground mb-2">
+          触发条件: {COMBAT_EVENT_TYPES.join(' / ')}，如 "hpBelowThreshold:0.3"；效果: "类型[:属性]:数值[:持续回合]"，如 "buff:attack:0.2:2;shield:0.1"
+        </p>
+      )}
+
+      {mechanics.map((mechanic, index) => (
+        <div key={index} className="mb-2 p-2 border rounded-md space-y-2">
+          <div className="flex gap-2 items-end">
+            <div className="flex-1">
+              <Label htmlFor={`${idPrefix}-mechanic-name-${index}`} className="text-xs">名称</Label>
+              <Input
+                id={`${idPrefix}-mechanic-name-${index}`}
+                value={mechanic.name}
+                onChange={(e) => updateMechanic(index, 'name', e.target.value)}
+                className="text-sm"
+              />
+            </div>
+
+            <div className="flex-1">
+              <Label htmlFor={`${idPrefix}-mechanic-trigger-${index}`} className="text-xs">触发条件</Label>
+              <Input
+                id={`${idPrefix}-mechanic-trigger-${index}`}
+                value={mechanic.triggerCondition}
+                onChange={(e) => updateMechanic(index, 'triggerCondition', e.target.value)}
+                className="text-sm"
+              />
+            </div>
+
+            <div className="flex-1">
+              <Label htmlFor={`${idPrefix}-mechanic-effect-${index}`} className="text-xs">效果</Label>
+              <Input
+                id={`${idPrefix}-mechanic-effect-${index}`}
+                value={mechanic.effect}
+                onChange={(e) => updateMechanic(index, 'effect', e.target.value)}
+                className="text-sm"
+              />
+            </div>
+
+            <div className="w-20">
+              <Label htmlFor={`${idPrefix}-mechanic-scaling-${index}`} className="text-xs">系数</Label>
+              <Input
+                id={`${idPrefix}-mechanic-scaling-${index}`}
+                type="number"
+                step="0.1"
+                value={mechanic.scalingFactor ?? ''}
+                onChange={(e) => updateMechanic(index, 'scalingFactor', e.target.value)}
+                className="text-sm"
+              />
+            </div>
+
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => onChange(mechanics.filter((_, i) => i !== index))}
+              className="h-8 w-8"
+            >
+              <Trash className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {!isMechanicValid(mechanic) && (
+            <div className="flex items-center gap-1 text-xs text-destructive">
+              <AlertTriangle className="h-3 w-3" />
+              无法解析，该机制在战斗中不会生效
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const describeInvalidMechanics = (faction: Omit<Faction, 'id'>): string => {
+  const invalid = (faction.specialMechanics ?? []).filter(mechanic => !isMechanicValid(mechanic));
+  return invalid.length > 0 ? `，${invalid.length} 个特殊机制无法解析，不会生效` : '';
+};
+
 const DEFAULT_FACTION: Omit<Faction, 'id'> = {
   name: '',
   description: '',
@@ -73,7 +193,7 @@ const FactionEditor: React.FC = () => {
     addFaction(newFaction);
     toast({
       title: "派系创建成功",
-      description: `派系 "${newFaction.name}" 已成功创建`
+      description: `派系 "${newFaction.name}" 已成功创建${describeInvalidMechanics(newFaction)}`
     });
     setNewFaction(DEFAULT_FACTION); // 重置表单
   };
@@ -111,7 +231,7 @@ const FactionEditor: React.FC = () => {
     updateFaction(editingFaction.id, editingFaction);
     toast({
       title: "派系已更新",
-      description: `派系 "${editingFaction.name}" 已成功更新`
+      description: `派系 "${editingFaction.name}" 已成功更新${describeInvalidMechanics(editingFaction)}`
     });
     setEditingFaction(null);
   };
@@ -307,6 +427,20 @@ const FactionEditor: React.FC = () => {
                         </div>
                       ))}
                     </div>
+                    
+                    {faction.specialMechanics && faction.specialMechanics.length > 0 && (
+                      <div className="space-y-1">
+                        <div className="text-xs font-medium">特殊机制:</div>
+                        {faction.specialMechanics.map((mechanic, idx) => (
+                          <div key={idx} className="text-xs pl-2 border-l-2 border-muted">
+                            {mechanic.name} ({mechanic.triggerCondition} → {mechanic.effect})
+                            {!isMechanicValid(mechanic) && (
+                              <span className="text-destructive ml-1">无法解析，不会生效</span>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
@@ -422,6 +556,12 @@ const FactionEditor: React.FC = () => {
                 ))}
               </div>
               
+              <MechanicListEditor
+                idPrefix="new"
+                mechanics={newFaction.specialMechanics ?? []}
+                onChange={(mechanics) => handleNewFactionChange('specialMechanics', mechanics)}
+              />
+              
               <div className="flex justify-end">
                 <Button onClick={handleAddFaction}>
                   <Plus className="h-4 w-4 mr-2" />
@@ -547,6 +687,12 @@ const FactionEditor: React.FC = () => {
                     ))}
                   </div>
                   
+                  <MechanicListEditor
+                    idPrefix="edit"
+                    mechanics={editingFaction.specialMechanics ?? []}
+                    onChange={(mechanics) => handleEditingFactionChange('specialMechanics', mechanics)}
+                  />
+                  
                   <div className="flex justify-end gap-2 mt-4">
                     <Button variant="outline" onClick={handleCancelEdit}>
                       <X className="h-4 w-4 mr-2" />
@@ -0,0 +1,685 @@
+import React, { useState } from 'react';
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Plus, Trash, Save, X, Edit } from 'lucide-react';
+import { useGameContext } from '@/context/GameContext';
+import { useGameConfig } from '@/hooks/use-game-config';
+import { useToast } from '@/hooks/use-toast';
+import { EquipmentSystem } from '@/types/balance';
+import { Unit } from '@/types/battle';
+import { ITEM_RARITY_LABELS, ItemRarity, MIN_SET_ITEMS, resolveEquipmentBonuses } from '@/lib/simulation/ItemSystem';
+
+const UNIT_TYPES = [
+  '战士', '法师', '射手', '骑士', '牧师', '刺客', '商人'
+];
+
+const STAT_TARGETS = [
+  { value: 'attack', label: '攻击力' },
+  { value: 'defense', label: '防御力' },
+  { value: 'magicPower', label: '魔法攻击' },
+  { value: 'magicResistance', label: '魔法抗性' },
+  { value: 'speed', label: '速度' },
+  { value: 'maxHP', label: '生命值' },
+  { value: 'critRate', label: '暴击率' },
+  { value: 'lifesteal', label: '吸血' },
+  { value: 'thorns', label: '反伤' },
+  { value: 'shield', label: '初始护盾' }
+];
+
+type ItemDefinition = EquipmentSystem['items'][string];
+type SetDefinition = EquipmentSystem['setCombinations'][string];
+
+// 编辑中的装备: 适配系数随装备一起编辑，保存时写回 equipmentAffinities
+interface ItemDraft {
+  id: string;
+  item: ItemDefinition;
+  affinities: Record<string, number>;
+}
+
+interface SetDraft {
+  name: string;
+  set: SetDefinition;
+  originalName?: string; // 编辑已有套装时的原名称，用于重命名
+}
+
+const DEFAULT_ITEM: ItemDefinition = {
+  name: '',
+  rarity: 'common',
+  statModifiers: { attack: 0.1 }
+};
+
+const DEFAULT_SET: SetDefinition = {
+  requiredItems: [],
+  bonusEffect: {
+    description: '',
+    statModifiers: { attack: 0.1 }
+  }
+};
+
+const statLabel = (stat: string) => STAT_TARGETS.find(t => t.value === stat)?.label ?? stat;
+
+const formatModifiers = (modifiers: Record<string, number>) =>
+  Object.entries(modifiers)
+    .map(([stat, value]) => `${statLabel(stat)} ${value > 0 ? '+' : ''}${(value * 100).toFixed(0)}%`)
+    .join(', ');
+
+// 属性修正列表编辑 (装备与套装共用)
+const ModifierListEditor: React.FC<{
+  idPrefix: string;
+  modifiers: Record<string, number>;
+  onChange: (modifiers: Record<string, number>) => void;
+}> = ({ idPrefix, modifiers, onChange }) => {
+  const entries = Object.entries(modifiers);
+
+  const updateEntry = (index: number, stat: string, value: number) => {
+    const updated = [...entries];
+    updated[index] = [stat, value];
+    onChange(Object.fromEntries(updated));
+  };
+
+  const addEntry = () => {
+    const unused = STAT_TARGETS.find(target => !(target.value in modifiers));
+    if (!unused) return;
+    onChange({ ...modifiers, [unused.value]: 0.1 });
+  };
+
+  const removeEntry = (stat: string) => {
+    const updated = { ...modifiers };
+    delete updated[stat];
+    onChange(updated);
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-2">
+        <Label>属性修正</Label>
+        <Button size="sm" variant="outline" onClick={addEntry}>
+          <Plus className="h-3 w-3 mr-1" />
+          添加属性
+        </Button>
+      </div>
+
+      {entries.map(([stat, value], index) => (
+        <div key={stat} className="flex gap-2 items-end mb-2 p-2 border rounded-md">
+          <div className="flex-1">
+            <Label htmlFor={`${idPrefix}-stat-${index}`} className="text-xs">目标属性</Label>
+            <select
+              id={`${idPrefix}-stat-${index}`}
+              value={stat}
+              onChange={(e) => updateEntry(index, e.target.value, value)}
+              className="w-full bg-background text-sm border rounded px-2 py-1"
+            >
+              {STAT_TARGETS.filter(target => target.value === stat || !(target.value in modifiers)).map(target => (
+                <option key={target.value} value={target.value}>
+                  {target.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex-1">
+            <Label htmlFor={`${idPrefix}-value-${index}`} className="text-xs">数值 (%)</Label>
+            <Input
+              id={`${idPrefix}-value-${index}`}
+              type="number"
+              step="0.05"
+              min="-1"
+              max="1"
+              value={value}
+              onChange={(e) => updateEntry(index, stat, parseFloat(e.target.value) || 0)}
+              className="text-sm"
+            />
+          </div>
+
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={() => removeEntry(stat)}
+            className="h-8 w-8"
+          >
+            <Trash className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const ItemEditor: React.FC = () => {
+  const { battleState, units, updateUnit } = useGameContext();
+  const { config, configManager } = useGameConfig();
+  const { toast } = useToast();
+  const equipment = config.equipmentSystem;
+
+  const [activeTab, setActiveTab] = useState('items');
+  const [newItem, setNewItem] = useState<ItemDraft>({ id: '', item: DEFAULT_ITEM, affinities: {} });
+  const [editingItem, setEditingItem] = useState<ItemDraft | null>(null);
+  const [newSet, setNewSet] = useState<SetDraft>({ name: '', set: DEFAULT_SET });
+  const [editingSet, setEditingSet] = useState<SetDraft | null>(null);
+
+  // 写回装备的适配系数，系数为 1 (默认) 时不保存
+  const withAffinities = (
+    affinities: EquipmentSystem['equipmentAffinities'],
+    itemId: string,
+    itemAffinities: Record<string, number>
+  ): EquipmentSystem['equipmentAffinities'] => {
+    const result: EquipmentSystem['equipmentAffinities'] = {};
+    const types = new Set([...Object.keys(affinities), ...Object.keys(itemAffinities)]);
+
+    types.forEach(type => {
+      const entries = { ...affinities[type] };
+      delete entries[itemId];
+      if (itemAffinities[type] !== undefined && itemAffinities[type] !== 1) {
+        entries[itemId] = itemAffinities[type];
+      }
+      if (Object.keys(entries).length > 0) {
+        result[type] = entries;
+      }
+    });
+
+    return result;
+  };
+
+  const getItemAffinities = (itemId: string): Record<string, number> => {
+    const affinities: Record<string, number> = {};
+    Object.entries(equipment.equipmentAffinities).forEach(([type, items]) => {
+      if (items[itemId] !== undefined) {
+        affinities[type] = items[itemId];
+      }
+    });
+    return affinities;
+  };
+
+  const validateItem = (draft: ItemDraft, title: string): boolean => {
+    if (!draft.item.name.trim() || Object.keys(draft.item.statModifiers).length === 0) {
+      toast({
+        title,
+        description: "装备名称和至少一个属性修正是必须的",
+        variant: "destructive"
+      });
+      return false;
+    }
+    return true;
+  };
+
+  // 处理添加新装备
+  const handleAddItem = () => {
+    if (!validateItem(newItem, "创建失败")) return;
+
+    const id = newItem.id.trim() || `item-${Math.random().toString(36).substring(2, 9)}`;
+    if (equipment.items[id]) {
+      toast({
+        title: "创建失败",
+        description: `装备ID "${id}" 已存在`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    configManager.updateEquipmentSystem({
+      ...equipment,
+      items: { ...equipment.items, [id]: newItem.item },
+      equipmentAffinities: withAffinities(equipment.equipmentAffinities, id, newItem.affinities)
+    });
+    toast({
+      title: "装备创建成功",
+      description: `装备 "${newItem.item.name}" 已成功创建`
+    });
+    setNewItem({ id: '', item: DEFAULT_ITEM, affinities: {} });
+  };
+
+  // 处理保存编辑后的装备
+  const handleSaveItem = () => {
+    if (!editingItem || !validateItem(editingItem, "保存失败")) return;
+
+    configManager.updateEquipmentSystem({
+      ...equipment,
+      items: { ...equipment.items, [editingItem.id]: editingItem.item },
+      equipmentAffinities: withAffinities(equipment.equipmentAffinities, editingItem.id, editingItem.affinities)
+    });
+    toast({
+      title: "装备已更新",
+      description: `装备 "${editingItem.item.name}" 已成功更新`
+    });
+    setEditingItem(null);
+  };
+
+  // 删除装备时同时从套装需求、适配系数与单位装备中移除；剩余不足两件的套装一并删除
+  const handleDeleteItem = (itemId: string) => {
+    const items = { ...equipment.items };
+    delete items[itemId];
+
+    const setCombinations: EquipmentSystem['setCombinations'] = {};
+    const removedSets: string[] = [];
+    Object.entries(equipment.setCombinations).forEach(([name, set]) => {
+      const requiredItems = set.requiredItems.filter(id => id !== itemId);
+      if (requiredItems.length < MIN_SET_ITEMS) {
+        removedSets.push(name);
+        return;
+      }
+      setCombinations[name] = { ...set, requiredItems };
+    });
+
+    configManager.updateEquipmentSystem({
+      items,
+      setCombinations,
+      equipmentAffinities: withAffinities(equipment.equipmentAffinities, itemId, {})
+    });
+
+    // 优先使用单位列表中的战前数据，战斗中的单位只在不在列表中时更新
+    const holders = new Map<string, Unit>();
+    [...units, ...(battleState ? [...battleState.teams.alpha, ...battleState.teams.beta] : [])].forEach(unit => {
+      if (!holders.has(unit.id) && unit.items?.includes(itemId)) {
+        holders.set(unit.id, unit);
+      }
+    });
+    holders.forEach(unit => updateUnit(unit.id, { ...unit, items: unit.items!.filter(id => id !== itemId) }));
+
+    if (editingItem?.id === itemId) {
+      setEditingItem(null);
+    }
+    if (editingSet?.originalName && removedSets.includes(editingSet.originalName)) {
+      setEditingSet(null);
+    }
+    toast({
+      title: "装备已删除",
+      description: removedSets.length > 0
+        ? `该装备已成功删除，套装 ${removedSets.join('、')} 不足两件已一并删除`
+        : "该装备已成功删除"
+    });
+  };
+
+  const validateSet = (draft: SetDraft, title: string): boolean => {
+    if (!draft.name.trim() || draft.set.requiredItems.length < MIN_SET_ITEMS) {
+      toast({
+        title,
+        description: "套装名称和至少两件装备是必须的",
+        variant: "destructive"
+      });
+      return false;
+    }
+    return true;
+  };
+
+  // 处理添加/保存套装，重命名时移除旧名称
+  const handleSaveSet = (draft: SetDraft) => {
+    const previousName = draft.originalName;
+    if (!validateSet(draft, previousName ? "保存失败" : "创建失败")) return;
+
+    const name = draft.name.trim();
+    if (name !== previousName && equipment.setCombinations[name]) {
+      toast({
+        title: previousName ? "保存失败" : "创建失败",
+        description: `套装 "${name}" 已存在`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const setCombinations = { ...equipment.setCombinations };
+    if (previousName) {
+      delete setCombinations[previousName];
+    }
+    setCombinations[name] = draft.set;
+
+    configManager.updateEquipmentSystem({ ...equipment, setCombinations });
+    toast({
+      title: previousName ? "套装已更新" : "套装创建成功",
+      description: `套装 "${name}" 已保存`
+    });
+
+    if (previousName) {
+      setEditingSet(null);
+    } else {
+      setNewSet({ name: '', set: DEFAULT_SET });
+    }
+  };
+
+  const handleDeleteSet = (name: string) => {
+    const setCombinations = { ...equipment.setCombinations };
+    delete setCombinations[name];
+
+    configManager.updateEquipmentSystem({ ...equipment, setCombinations });
+    if (editingSet?.originalName === name) {
+      setEditingSet(null);
+    }
+    toast({
+      title: "套装已删除",
+      description: `套装 "${name}" 已成功删除`
+    });
+  };
+
+  // 计算套装在两队中的激活状态
+  const activeSetNames = {
+    alpha: battleState ? resolveEquipmentBonuses(battleState.teams.alpha, equipment).activeSets.map(set => set.name) : [],
+    beta: battleState ? resolveEquipmentBonuses(battleState.teams.beta, equipment).activeSets.map(set => set.name) : []
+  };
+
+  // 统计各装备被多少单位装备
+  const equippedCount = (itemId: string) => battleState
+    ? [...battleState.teams.alpha, ...battleState.teams.beta].filter(unit => unit.items?.includes(itemId)).length
+    : 0;
+
+  const renderItemForm = (draft: ItemDraft, onChange: (draft: ItemDraft) => void, idPrefix: string, isNew: boolean) => (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor={`${idPrefix}-name`}>装备名称</Label>
+          <Input
+            id={`${idPrefix}-name`}
+            value={draft.item.name}
+            onChange={(e) => onChange({ ...draft, item: { ...draft.item, name: e.target.value } })}
+          />
+        </div>
+
+        <div>
+          <Label htmlFor={`${idPrefix}-id`}>装备ID</Label>
+          <Input
+            id={`${idPrefix}-id`}
+            value={draft.id}
+            placeholder="留空自动生成"
+            disabled={!isNew}
+            onChange={(e) => onChange({ ...draft, id: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <div>
+        <Label htmlFor={`${idPrefix}-rarity`}>稀有度</Label>
+        <select
+          id={`${idPrefix}-rarity`}
+          value={draft.item.rarity}
+          onChange={(e) => onChange({ ...draft, item: { ...draft.item, rarity: e.target.value as ItemRarity } })}
+          className="w-full bg-background text-sm border rounded px-2 py-1"
+        >
+          {Object.entries(ITEM_RARITY_LABELS).map(([rarity, label]) => (
+            <option key={rarity} value={rarity}>{label}</option>
+          ))}
+        </select>
+      </div>
+
+      <ModifierListEditor
+        idPrefix={idPrefix}
+        modifiers={draft.item.statModifiers}
+        onChange={(statModifiers) => onChange({ ...draft, item: { ...draft.item, statModifiers } })}
+      />
+
+      <div>
+        <Label className="mb-2 block">单位适配系数 (0.5 - 2.0)</Label>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+          {UNIT_TYPES.map(type => (
+            <div key={type}>
+              <Label htmlFor={`${idPrefix}-affinity-${type}`} className="text-xs">{type}</Label>
+              <Input
+                id={`${idPrefix}-affinity-${type}`}
+                type="number"
+                step="0.1"
+                min="0.5"
+                max="2"
+                value={draft.affinities[type] ?? 1}
+                onChange={(e) => onChange({
+                  ...draft,
+                  affinities: { ...draft.affinities, [type]: parseFloat(e.target.value) || 1 }
+                })}
+                className="text-sm"
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+
+  const renderSetForm = (draft: SetDraft, onChange: (draft: SetDraft) => void, idPrefix: string) => (
+    <div className="space-y-4">
+      <div>
+        <Label htmlFor={`${idPrefix}-name`}>套装名称</Label>
+        <Input
+          id={`${idPrefix}-name`}
+          value={draft.name}
+          onChange={(e) => onChange({ ...draft, name: e.target.value })}
+        />
+      </div>
+
+      <div>
+        <Label htmlFor={`${idPrefix}-description`}>描述</Label>
+        <Textarea
+          id={`${idPrefix}-description`}
+          value={draft.set.bonusEffect.description}
+          onChange={(e) => onChange({
+            ...draft,
+            set: { ...draft.set, bonusEffect: { ...draft.set.bonusEffect, description: e.target.value } }
+          })}
+          className="min-h-20"
+        />
+      </div>
+
+      <div>
+        <Label className="mb-2 block">所需装备</Label>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+          {Object.entries(equipment.items).map(([itemId, item]) => (
+            <div key={itemId} className="flex items-center space-x-2">
+              <Checkbox
+                id={`${idPrefix}-item-${itemId}`}
+                checked={draft.set.requiredItems.includes(itemId)}
+                onCheckedChange={() => onChange({
+                  ...draft,
+                  set: {
+                    ...draft.set,
+                    requiredItems: draft.set.requiredItems.includes(itemId)
+                      ? draft.set.requiredItems.filter(id => id !== itemId)
+                      : [...draft.set.requiredItems, itemId]
+                  }
+                })}
+              />
+              <label htmlFor={`${idPrefix}-item-${itemId}`} className="text-sm cursor-pointer">
+                {item.name}
+              </label>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <ModifierListEditor
+        idPrefix={idPrefix}
+        modifiers={draft.set.bonusEffect.statModifiers}
+        onChange={(statModifiers) => onChange({
+          ...draft,
+          set: { ...draft.set, bonusEffect: { ...draft.set.bonusEffect, statModifiers } }
+        })}
+      />
+    </div>
+  );
+
+  return (
+    <Card className="animate-fade-up">
+      <CardHeader>
+        <CardTitle>装备编辑器</CardTitle>
+        <CardDescription>
+          创建装备、套装与单位适配系数
+          {!config.featureFlags.itemSystem?.enabled && ' (装备系统未开启，可在配置管理中启用)'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Tabs value={activeTab} onValueChange={setActiveTab}>
+          <TabsList className="mb-4">
+            <TabsTrigger value="items">装备列表</TabsTrigger>
+            <TabsTrigger value="add">添加装备</TabsTrigger>
+            <TabsTrigger value="sets">套装</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="items" className="space-y-4">
+            {Object.keys(equipment.items).length === 0 ? (
+              <div className="text-center p-4 bg-muted rounded-md text-muted-foreground">
+                <p className="mb-2">未添加任何装备，请切换到"添加装备"选项卡创建装备</p>
+                <Button variant="outline" onClick={() => setActiveTab('add')}>
+                  创建新装备
+                </Button>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {Object.entries(equipment.items).map(([itemId, item]) => {
+                  const affinities = getItemAffinities(itemId);
+
+                  return (
+                    <div key={itemId} className="border rounded-md p-3 flex flex-col gap-2">
+                      <div className="flex justify-between items-center">
+                        <div className="font-medium">
+                          {item.name}
+                          <span className="ml-2 text-xs text-muted-foreground">{ITEM_RARITY_LABELS[item.rarity]}</span>
+                        </div>
+                        <div className="flex gap-1">
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => setEditingItem({ id: itemId, item: { ...item }, affinities })}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => handleDeleteItem(itemId)}
+                          >
+                            <Trash className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+
+                      <div className="text-xs text-muted-foreground">ID: {itemId}</div>
+                      <div className="text-sm">{formatModifiers(item.statModifiers)}</div>
+
+                      {Object.keys(affinities).length > 0 && (
+                        <div className="text-xs text-muted-foreground">
+                          适配: {Object.entries(affinities).map(([type, value]) => `${type} ×${value}`).join(', ')}
+                        </div>
+                      )}
+
+                      <div className="text-xs text-muted-foreground">
+                        已装备单位: {equippedCount(itemId)}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="add">
+            {renderItemForm(newItem, setNewItem, 'item', true)}
+            <div className="flex justify-end mt-4">
+              <Button onClick={handleAddItem}>
+                <Plus className="h-4 w-4 mr-2" />
+                添加装备
+              </Button>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="sets" className="space-y-4">
+            {Object.keys(equipment.setCombinations).length > 0 && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {Object.entries(equipment.setCombinations).map(([name, set]) => (
+                  <div key={name} className="border rounded-md p-3 flex flex-col gap-2">
+                    <div className="flex justify-between items-center">
+                      <div className="font-medium">{name}</div>
+                      <div className="flex gap-1">
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => setEditingSet({ name, originalName: name, set: { ...set, bonusEffect: { ...set.bonusEffect } } })}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => handleDeleteSet(name)}
+                        >
+                          <Trash className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+
+                    <div className="text-sm">{set.bonusEffect.description}</div>
+
+                    <div className="text-xs text-muted-foreground">
+                      所需装备: {set.requiredItems.map(id => equipment.items[id]?.name ?? id).join(', ')}
+                    </div>
+
+                    <div className="text-xs pl-2 border-l-2 border-muted">
+                      {formatModifiers(set.bonusEffect.statModifiers)}
+                    </div>
+
+                    <div className="flex gap-2 mt-2">
+                      {(['alpha', 'beta'] as const).map(team => {
+                        const active = activeSetNames[team].includes(name);
+                        return (
+                          <div key={team} className={`text-xs px-2 py-1 rounded ${
+                            active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-500'
+                          }`}>
+                            Team {team === 'alpha' ? 'Alpha' : 'Beta'}: {active ? '已激活' : '未激活'}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="border rounded-md p-3">
+              <div className="font-medium mb-3">添加套装</div>
+              {renderSetForm(newSet, setNewSet, 'set')}
+              <div className="flex justify-end mt-4">
+                <Button onClick={() => handleSaveSet(newSet)}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  添加套装
+                </Button>
+              </div>
+            </div>
+          </TabsContent>
+        </Tabs>
+
+        {(editingItem || editingSet) && (
+          <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+            <Card className="w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+              <CardHeader>
+                <CardTitle>{editingItem ? '编辑装备' : '编辑套装'}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {editingItem && renderItemForm(editingItem, setEditingItem, 'edit-item', false)}
+                {!editingItem && editingSet && renderSetForm(editingSet, setEditingSet, 'edit-set')}
+
+                <div className="flex justify-end gap-2 mt-4">
+                  <Button
+                    variant="outline"
+                    onClick={() => {
+                      setEditingItem(null);
+                      setEditingSet(null);
+                    }}
+                  >
+                    <X className="h-4 w-4 mr-2" />
+                    取消
+                  </Button>
+                  <Button
+                    onClick={() => editingItem ? handleSaveItem() : editingSet && handleSaveSet(editingSet)}
+                  >
+                    <Save className="h-4 w-4 mr-2" />
+                    保存
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ItemEditor;
@@ -19,6 +19,8 @@ const SimulationControls = () => {
     isSimulationRunning, 
     activeTerrain, 
     setTerrain, 
+    terrainVariety,
+    setTerrainVariety,
     startBattle, 
     pauseBattle, 
     resetBattle, 
@@ -306,13 +308,27 @@ const SimulationControls = () => {
                 >
                   <option value="plains">平原</option>
                   <option value="forest">森林</option>
-                  <option value="mountain">山地</option>
+                  <option value="mountains">山地</option>
                   <option value="desert">沙漠</option>
                   <option value="swamp">沼泽</option>
                   <option value="fire">火地</option>
+                  <option value="water">水域</option>
                 </select>
               </div>
               
+              <div>随机地形比例:</div>
+              <div className="text-right">
+                <input 
+                  type="number" 
+                  min="0" 
+                  max="1" 
+                  step="0.1" 
+                  value={terrainVariety} 
+                  onChange={(e) => setTerrainVariety(Math.min(1, Math.max(0, Number(e.target.value) || 0)))}
+                  className="w-full bg-background text-right border rounded px-1 py-1"
+                />
+              </div>
+              
               <div>环境效果:</div>
               <div className="text-right">
                 <input 
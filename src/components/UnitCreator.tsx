@@ -331,7 +331,10 @@ const UnitCreator: React.FC = () => {
                     onClick={() => handleEditUnit(unit)}
                   >
                     <div>
-                      <div className="font-medium">{unit.name}</div>
+                      <div className="font-medium">
+                        {unit.name}
+                        <span className="ml-1 text-yellow-500">{'★'.repeat(unit.stars ?? 1)}</span>
+                      </div>
                       <div className="text-sm text-muted-foreground">
                         {unit.race} {unit.profession} · Lv.{unit.level} · {unit.team === 'alpha' ? 'A队' : 'B队'}
                         {unit.faction && ` · ${unit.faction}`}
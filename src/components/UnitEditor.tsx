@@ -8,9 +8,16 @@ import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Switch } from '@/components/ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
 import { useGameContext } from '@/context/GameContext';
 import { useToast } from '@/hooks/use-toast';
+import { useGameConfig } from '@/hooks/use-game-config';
 import { Unit } from '@/types/battle';
+import { parseBehaviorTree } from '@/lib/simulation/BehaviorTree';
+import { MAX_STARS, getStarMultiplier } from '@/lib/simulation/StarSystem';
+import { getItemAffinity } from '@/lib/simulation/ItemSystem';
+import { DEFAULT_MOVE_SPEED, getDefaultRange } from '@/lib/simulation/BattleGrid';
+import BehaviorTreeEditor from './BehaviorTreeEditor';
 import { X, Save, Trash } from 'lucide-react';
 
 interface UnitEditorProps {
@@ -21,8 +28,13 @@ interface UnitEditorProps {
 const UnitEditor: React.FC<UnitEditorProps> = ({ unit, onClose }) => {
   const { updateUnit, deleteUnit, factions } = useGameContext();
   const { toast } = useToast();
+  const { config } = useGameConfig();
+  const equipment = config.equipmentSystem;
   
   const [editedUnit, setEditedUnit] = useState<Unit>({ ...unit });
+  const [behaviorTreeText, setBehaviorTreeText] = useState(
+    unit.behaviorTree ? JSON.stringify(unit.behaviorTree, null, 2) : ''
+  );
   
   const handleUpdateField = (field: keyof Unit, value: any) => {
     setEditedUnit(prev => ({
@@ -31,6 +43,11 @@ const UnitEditor: React.FC<UnitEditorProps> = ({ unit, onClose }) => {
     }));
   };
   
+  const handleItemToggle = (itemId: string) => {
+    const items = editedUnit.items ?? [];
+    handleUpdateField('items', items.includes(itemId) ? items.filter(id => id !== itemId) : [...items, itemId]);
+  };
+  
   const handleSave = () => {
     if (!editedUnit.name.trim()) {
       toast({
@@ -41,6 +58,17 @@ const UnitEditor: React.FC<UnitEditorProps> = ({ unit, onClose }) => {
       return;
     }
     
+    const { tree, errors } = parseBehaviorTree(behaviorTreeText, editedUnit);
+    if (errors.length > 0) {
+      toast({
+        title: "保存失败",
+        description: `行为树不合法: ${errors[0]}`,
+        variant: "destructive"
+      });
+      return;
+    }
+    editedUnit.behaviorTree = tree;
+    
     // 更新当前生命值以匹配最大生命值（如果最大生命值有变化）
     if (editedUnit.maxHP !== unit.maxHP) {
       editedUnit.currentHP = editedUnit.maxHP;
@@ -182,10 +210,26 @@ const UnitEditor: React.FC<UnitEditorProps> = ({ unit, onClose }) => {
               />
             </div>
             
+            <div>
+              <Label htmlFor="edit-unit-stars">
+                星级: {'★'.repeat(editedUnit.stars ?? 1)} (战斗中生命/攻击/法强 ×{getStarMultiplier(editedUnit, editedUnit.stars).toFixed(2)})
+              </Label>
+              <Slider 
+                id="edit-unit-stars" 
+                min={1} 
+                max={MAX_STARS} 
+                step={1} 
+                value={[editedUnit.stars ?? 1]} 
+                onValueChange={(value) => handleUpdateField('stars', value[0])} 
+              />
+            </div>
+            
             <Tabs defaultValue="combat">
               <TabsList className="w-full">
                 <TabsTrigger value="combat" className="flex-1">战斗属性</TabsTrigger>
                 <TabsTrigger value="other" className="flex-1">其他属性</TabsTrigger>
+                <TabsTrigger value="items" className="flex-1">装备</TabsTrigger>
+                <TabsTrigger value="ai" className="flex-1">AI行为</TabsTrigger>
               </TabsList>
               <TabsContent value="combat" className="space-y-4 pt-4">
                 <div>
@@ -262,6 +306,30 @@ const UnitEditor: React.FC<UnitEditorProps> = ({ unit, onClose }) => {
                   />
                 </div>
                 
+                <div>
+                  <Label htmlFor="edit-unit-range">攻击距离: {editedUnit.range ?? `默认 (${getDefaultRange(editedUnit.type)})`}</Label>
+                  <Slider 
+                    id="edit-unit-range" 
+                    min={1} 
+                    max={6} 
+                    step={1} 
+                    value={[editedUnit.range ?? getDefaultRange(editedUnit.type)]} 
+                    onValueChange={(value) => handleUpdateField('range', value[0])} 
+                  />
+                </div>
+                
+                <div>
+                  <Label htmlFor="edit-unit-move-speed">移动速度: {editedUnit.moveSpeed ?? `默认 (${DEFAULT_MOVE_SPEED})`}</Label>
+                  <Slider 
+                    id="edit-unit-move-speed" 
+                    min={1} 
+                    max={5} 
+                    step={1} 
+                    value={[editedUnit.moveSpeed ?? DEFAULT_MOVE_SPEED]} 
+                    onValueChange={(value) => handleUpdateField('moveSpeed', value[0])} 
+                  />
+                </div>
+                
                 <div>
                   <Label htmlFor="edit-unit-crit-rate">暴击率: {(editedUnit.critRate * 100).toFixed(0)}%</Label>
                   <Slider 
@@ -286,6 +354,35 @@ const UnitEditor: React.FC<UnitEditorProps> = ({ unit, onClose }) => {
                   />
                 </div>
               </TabsContent>
+              
+              <TabsContent value="items" className="space-y-2 pt-4">
+                {!config.featureFlags.itemSystem?.enabled && (
+                  <div className="text-xs text-muted-foreground">装备系统未开启，装备不会在战斗中生效</div>
+                )}
+                {Object.entries(equipment.items).map(([itemId, item]) => (
+                  <div key={itemId} className="flex items-center space-x-2">
+                    <Checkbox 
+                      id={`edit-unit-item-${itemId}`} 
+                      checked={editedUnit.items?.includes(itemId) ?? false}
+                      onCheckedChange={() => handleItemToggle(itemId)}
+                    />
+                    <label htmlFor={`edit-unit-item-${itemId}`} className="text-sm cursor-pointer">
+                      {item.name}
+                    </label>
+                    <span className="text-xs text-muted-foreground">
+                      适配 ×{getItemAffinity(equipment, editedUnit.type, itemId).toFixed(1)}
+                    </span>
+                  </div>
+                ))}
+              </TabsContent>
+              
+              <TabsContent value="ai" className="pt-4">
+                <BehaviorTreeEditor 
+                  unit={editedUnit} 
+                  value={behaviorTreeText} 
+                  onChange={setBehaviorTreeText} 
+                />
+              </TabsContent>
             </Tabs>
             
             <div className="flex items-center space-x-2">
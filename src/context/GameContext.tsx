@@ -1,8 +1,11 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
 import { BattleState, Unit, UnitType, RaceType, ProfessionType, TerrainType } from '@/types/battle';
+import { Faction as TieredFaction } from '@/types/balance';
 import { useToast } from '@/hooks/use-toast';
 import { PerformanceMonitor } from '@/lib/utils/PerformanceMonitor';
 import { useGameConfig } from '@/hooks/use-game-config';
+import { BattleSystem } from '@/lib/simulation/BattleSystem';
+import { UnitAI } from '@/lib/simulation/UnitAI';
 
 export interface Bond {
   id: string;
@@ -13,7 +16,7 @@ export interface Bond {
   effects: {
     type: 'buff' | 'debuff';
     value: number;
-    target: 'attack' | 'defense' | 'magicPower' | 'magicResistance' | 'speed' | 'maxHP' | 'critRate';
+    target: 'attack' | 'defense' | 'magicPower' | 'magicResistance' | 'speed' | 'maxHP' | 'critRate' | 'lifesteal' | 'thorns' | 'shield';
   }[];
 }
 
@@ -25,8 +28,9 @@ export interface Faction {
   bonuses: {
     type: 'buff' | 'debuff';
     value: number;
-    target: 'attack' | 'defense' | 'magicPower' | 'magicResistance' | 'speed' | 'maxHP' | 'critRate';
+    target: 'attack' | 'defense' | 'magicPower' | 'magicResistance' | 'speed' | 'maxHP' | 'critRate' | 'lifesteal' | 'thorns' | 'shield';
   }[];
+  specialMechanics?: TieredFaction['specialMechanics']; // 派系成员订阅的触发器，语法见 parseMechanicTrigger
 }
 
 // 修改平衡参数接口，添加索引签名
@@ -67,6 +71,8 @@ interface GameContextProps {
   isSimulationRunning: boolean;
   activeTerrain: TerrainType;
   setTerrain: (terrain: TerrainType) => void;
+  terrainVariety: number; // 随机地形格子的比例 (0-1)
+  setTerrainVariety: (variety: number) => void;
   advanceBattleRound: () => void;
   battleLog: Array<{message: string}>;
   balanceParameters: BalanceParameters;
@@ -104,8 +110,11 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [isSimulating, setIsSimulating] = useState(false);
   const [simulationSpeed, setSimulationSpeed] = useState(1);
   const [activeTerrain, setActiveTerrain] = useState<TerrainType>("plains");
+  const [terrainVariety, setTerrainVariety] = useState(0);
   const [battleLog, setBattleLog] = useState<Array<{message: string}>>([]);
   const simulationRef = useRef<NodeJS.Timeout | null>(null);
+  const battleSystemRef = useRef<BattleSystem | null>(null);
+  const rosterRef = useRef<BattleState['teams'] | null>(null);
   const performanceMonitor = useRef(new PerformanceMonitor()).current;
   const { toast } = useToast();
   const [bonds, setBonds] = useState<Bond[]>([]);
@@ -155,6 +164,13 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
     setBattleState(initialState);
   }, [activeTerrain]);
 
+  // 战斗结束后编辑单位时同步战前阵容，保证重新开始/重置使用最新单位
+  const updateRoster = (update: (teams: BattleState['teams']) => BattleState['teams']) => {
+    if (rosterRef.current) {
+      rosterRef.current = update(rosterRef.current);
+    }
+  };
+
   const addUnit = useCallback((unit: Omit<Unit, "id">) => {
     const newUnit: Unit = {
       ...unit,
@@ -164,6 +180,7 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
     };
     
     setUnits(prev => [...prev, newUnit]);
+    updateRoster(teams => ({ ...teams, [newUnit.team]: [...teams[newUnit.team], newUnit] }));
     setBattleState(prev => {
       if (!prev) return prev;
       
@@ -183,6 +200,10 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const removeUnit = useCallback((unitId: string) => {
     setUnits(prev => prev.filter(u => u.id !== unitId));
+    updateRoster(teams => ({
+      alpha: teams.alpha.filter(u => u.id !== unitId),
+      beta: teams.beta.filter(u => u.id !== unitId)
+    }));
     setBattleState(prev => {
       if (!prev) return prev;
       
@@ -201,6 +222,10 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const updateUnit = useCallback((id: string, updatedUnit: Unit) => {
     setUnits(prev => prev.map(unit => unit.id === id ? updatedUnit : unit));
+    updateRoster(teams => ({
+      alpha: teams.alpha.map(unit => unit.id === id ? updatedUnit : unit),
+      beta: teams.beta.map(unit => unit.id === id ? updatedUnit : unit)
+    }));
     setBattleState(prev => {
       if (!prev) return prev;
       
@@ -400,6 +425,56 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
     };
   }, []);
 
+  // 推进一回合战斗，由 BattleSystem 负责所有战斗逻辑
+  const stepBattle = useCallback((): BattleState | null => {
+    const battleSystem = battleSystemRef.current;
+    if (!battleSystem) return null;
+    
+    const startLogicTime = performance.now();
+    
+    battleSystem.executeTurn();
+    const nextState = battleSystem.getState();
+    
+    const messages = nextState.log.slice().reverse().map(entry => ({ message: entry.message }));
+    if (nextState.status === 'completed') {
+      messages.push({
+        message: `战斗结束！${
+          nextState.winner === 'alpha' ? 'A队获胜!' : 
+          nextState.winner === 'beta' ? 'B队获胜!' : 
+          '战斗平局!'
+        }`
+      });
+    }
+    
+    setBattleState(nextState);
+    setBattleLog(messages);
+    
+    const endLogicTime = performance.now();
+    performanceMonitor.recordLogicTime(endLogicTime - startLogicTime);
+    performanceMonitor.frameRendered();
+    
+    return nextState;
+  }, [performanceMonitor]);
+
+  // 自动模拟战斗，直到战斗结束或被暂停
+  const simulateBattle = useCallback(() => {
+    const nextState = stepBattle();
+    
+    if (!nextState || nextState.status === 'completed') {
+      simulationRef.current = null;
+      setIsSimulating(false);
+      return;
+    }
+    
+    // 使用配置的动画速度调整模拟速度
+    const configSpeed = config.uiOptions.animationSpeed;
+    const delay = Math.max(50, 500 / (simulationSpeed * configSpeed));
+    
+    simulationRef.current = setTimeout(() => {
+      simulateBattle();
+    }, delay);
+  }, [stepBattle, simulationSpeed, config.uiOptions]);
+
   const startBattle = useCallback(() => {
     if (!battleState || isSimulating) return;
     
@@ -412,28 +487,50 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
       return;
     }
     
-    setBattleState(prev => {
-      if (!prev) return prev;
-      return {
-        ...prev,
-        status: 'inProgress',
-        log: [
-          ...prev.log,
-          {
-            round: prev.round,
-            timestamp: Date.now(),
-            actorId: 'system',
-            action: 'attack',
-            message: `回合 ${prev.round} 战斗开始！`
-          }
-        ]
-      };
+    const battleSystem = new BattleSystem();
+    battleSystem.setBalanceParameters(balanceParameters);
+    battleSystem.setDamageFormula(config.damageFormula);
+    battleSystem.setBonds(config.featureFlags.bondSystem?.enabled === false ? [] : bonds);
+    battleSystem.setFactions(factions);
+    battleSystem.setAdvancedCombat(config.featureFlags.advancedCombat?.enabled === true);
+    battleSystem.setSkillSynergy(config.skillSynergy);
+    battleSystem.setUnitEcosystem(config.featureFlags.unitEcosystem?.enabled === true ? config.unitEcosystem : null);
+    battleSystem.setEquipmentSystem(config.featureFlags.itemSystem?.enabled === true ? config.equipmentSystem : null);
+    battleSystem.setTypeTriggers(config.unitTypeTriggers);
+    Object.entries(config.unitRoles).forEach(([unitType, role]) => {
+      battleSystem.registerController(unitType, new UnitAI(role));
     });
+    battleSystem.setMaxRounds(battleState.maxRounds);
+    battleSystem.setEnvironmentEffects(config.featureFlags.terrainEffects?.enabled !== false);
+    battleSystem.setTerrainVariety(terrainVariety);
+    battleSystem.setCombatMode(config.featureFlags.realtimeCombat?.enabled === true ? 'realtime' : 'turnBased');
+    
+    // 从战前阵容重新开始，避免对已按星级放大的战斗单位再次升星
+    const roster = rosterRef.current ?? battleState.teams;
+    
+    // 单位ID重复或行为树不合法时拒绝开始战斗
+    try {
+      battleSystem.initializeBattle(roster.alpha, roster.beta, activeTerrain);
+    } catch (error) {
+      toast({
+        title: "无法开始战斗",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    // 记录战前阵容，用于重置战斗
+    rosterRef.current = roster;
+    battleSystemRef.current = battleSystem;
     
+    const initialState = battleSystem.getState();
+    setBattleState(initialState);
+    setBattleLog(initialState.log.slice().reverse().map(entry => ({ message: entry.message })));
     setIsSimulating(true);
     
     simulateBattle();
-  }, [battleState, isSimulating]);
+  }, [battleState, isSimulating, balanceParameters, bonds, factions, activeTerrain, terrainVariety, config.featureFlags, config.damageFormula, config.skillSynergy, config.unitEcosystem, config.equipmentSystem, config.unitTypeTriggers, config.unitRoles, simulateBattle, toast]);
 
   const pauseBattle = useCallback(() => {
     if (simulationRef.current) {
@@ -448,7 +545,7 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
       setIsSimulating(true);
       simulateBattle();
     }
-  }, [isSimulating, battleState]);
+  }, [isSimulating, battleState, simulateBattle]);
 
   const resetBattle = useCallback(() => {
     if (simulationRef.current) {
@@ -457,20 +554,27 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
     
     setIsSimulating(false);
+    battleSystemRef.current = null;
+    setBattleLog([]);
+    
+    const roster = rosterRef.current;
+    rosterRef.current = null;
     
     // Don't remove units, just reset their health and other battle-specific properties
     setBattleState(prev => {
       if (!prev) return prev;
       
+      const teams = roster || prev.teams;
+      
       // Reset teams with full health units
-      const resetAlphaTeam = prev.teams.alpha.map(unit => ({
+      const resetAlphaTeam = teams.alpha.map(unit => ({
         ...unit,
         currentHP: unit.maxHP,
         currentMana: unit.maxMana || 100,
         status: 'idle' as 'idle' | 'attacking' | 'defending' | 'casting' | 'moving' | 'stunned' | 'dead'
       }));
       
-      const resetBetaTeam = prev.teams.beta.map(unit => ({
+      const resetBetaTeam = teams.beta.map(unit => ({
         ...unit,
         currentHP: unit.maxHP,
         currentMana: unit.maxMana || 100,
@@ -485,7 +589,8 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
           alpha: resetAlphaTeam,
           beta: resetBetaTeam
         },
-        log: []
+        log: [],
+        winner: undefined
       };
     });
     
@@ -495,235 +600,6 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
     });
   }, []);
 
-  // 模拟战斗方法中添加战斗结束的逻辑
-  const simulateBattle = useCallback(() => {
-    if (!battleState) return;
-    
-    const startLogicTime = performance.now();
-    
-    setBattleState(prev => {
-      if (!prev) return prev;
-      
-      if (prev.status === 'completed') {
-        setIsSimulating(false);
-        // 在战斗完成时更新battleLog
-        const winnerMessage = `战斗结束！${
-          prev.winner === 'alpha' ? 'A队获胜!' : 
-          prev.winner === 'beta' ? 'B队获胜!' : 
-          '战斗平局!'
-        }`;
-        setBattleLog(oldLog => [...oldLog, { message: winnerMessage }]);
-        return prev;
-      }
-      
-      if (prev.round >= prev.maxRounds) {
-        const alphaHpSum = prev.teams.alpha.reduce((sum, unit) => sum + unit.currentHP, 0);
-        const betaHpSum = prev.teams.beta.reduce((sum, unit) => sum + unit.currentHP, 0);
-        
-        let winner: 'alpha' | 'beta' | 'draw' = 'draw';
-        if (alphaHpSum > betaHpSum) {
-          winner = 'alpha';
-        } else if (betaHpSum > alphaHpSum) {
-          winner = 'beta';
-        }
-        
-        const newLogEntry = {
-          round: prev.round,
-          timestamp: Date.now(),
-          actorId: 'system',
-          action: 'attack' as const,
-          message: `战斗结束！${
-            winner === 'alpha' ? 'A队获胜!' : 
-            winner === 'beta' ? 'B队获胜!' : 
-            '战斗平局!'
-          }`
-        };
-        
-        setBattleLog(oldLog => [...oldLog, { message: newLogEntry.message }]);
-        
-        return {
-          ...prev,
-          status: 'completed',
-          winner,
-          log: [
-            ...prev.log,
-            newLogEntry
-          ]
-        };
-      }
-      
-      const alphaTeam = [...prev.teams.alpha];
-      const betaTeam = [...prev.teams.beta];
-      
-      const alphaAlive = alphaTeam.filter(unit => unit.currentHP > 0);
-      const betaAlive = betaTeam.filter(unit => unit.currentHP > 0);
-      
-      if (alphaAlive.length === 0 || betaAlive.length === 0) {
-        let winner: 'alpha' | 'beta' | 'draw' = 'draw';
-        if (alphaAlive.length > 0) winner = 'alpha';
-        if (betaAlive.length > 0) winner = 'beta';
-        
-        return {
-          ...prev,
-          status: 'completed',
-          winner,
-          log: [
-            ...prev.log,
-            {
-              round: prev.round,
-              timestamp: Date.now(),
-              actorId: 'system',
-              action: 'attack',
-              message: `战斗结束！${
-                winner === 'alpha' ? 'A队获胜!' : 
-                winner === 'beta' ? 'B队获胜!' : 
-                '战斗平局!'
-              }`
-            }
-          ]
-        };
-      }
-      
-      const allUnits = [...alphaAlive, ...betaAlive].sort((a, b) => b.speed - a.speed);
-      
-      const newLogs = [];
-      
-      // 应用羁绊效果
-      const appliedBonds = applyBondEffects(bonds, alphaAlive, betaAlive);
-      
-      // 为每个单位执行行动
-      allUnits.forEach(unit => {
-        if (unit.currentHP <= 0) return;
-        
-        const targetTeam = unit.team === 'alpha' ? betaAlive : alphaAlive;
-        if (targetTeam.length === 0) return;
-        
-        const targetIndex = Math.floor(Math.random() * targetTeam.length);
-        const target = targetTeam[targetIndex];
-        
-        // 使用配置系统的UI选项
-        const showEffects = config.uiOptions.showBattleEffects;
-        
-        // 计算攻击者的修正攻击力
-        const attackModifier = getBondModifier(appliedBonds, unit, 'attack');
-        const modifiedAttack = unit.attack * (1 + attackModifier);
-        
-        // 计算防御者的修正防御力
-        const defenseModifier = getBondModifier(appliedBonds, target, 'defense');
-        const modifiedDefense = target.defense * (1 + defenseModifier);
-        
-        // 应用伤害计算公式，注意每个单位的防御系数可能不同
-        const baseDamage = modifiedAttack * (1 - modifiedDefense * balanceParameters.physicalDefense);
-        
-        // 计算暴击率和暴击伤害
-        const critModifier = getBondModifier(appliedBonds, unit, 'critRate');
-        const modifiedCritRate = unit.critRate * (1 + critModifier) * balanceParameters.criticalRate;
-        const isCrit = Math.random() < modifiedCritRate;
-        const damage = Math.max(1, Math.round(isCrit ? baseDamage * unit.critDamage : baseDamage));
-        
-        target.currentHP = Math.max(0, target.currentHP - damage);
-        
-        newLogs.push({
-          round: prev.round,
-          timestamp: Date.now(),
-          actorId: unit.id,
-          action: 'attack',
-          targetId: target.id,
-          value: damage,
-          message: `${unit.name} ${isCrit ? '暴击' : '攻击'} ${target.name}，造成 ${damage} 点伤害${isCrit ? '(暴击)' : ''}！${
-            target.currentHP <= 0 ? `${target.name} 已击败！` : ''
-          }`
-        });
-        
-        if (target.currentHP <= 0) {
-          if (target.team === 'alpha') {
-            const index = alphaAlive.findIndex(u => u.id === target.id);
-            if (index !== -1) alphaAlive.splice(index, 1);
-          } else {
-            const index = betaAlive.findIndex(u => u.id === target.id);
-            if (index !== -1) betaAlive.splice(index, 1);
-          }
-        }
-      });
-      
-      return {
-        ...prev,
-        teams: {
-          alpha: alphaTeam,
-          beta: betaTeam
-        },
-        round: prev.round + 1,
-        log: [...prev.log, ...newLogs]
-      };
-    });
-    
-    const endLogicTime = performance.now();
-    performanceMonitor.recordLogicTime(endLogicTime - startLogicTime);
-    performanceMonitor.frameRendered();
-    
-    // 使用配置的动画速度调整模拟速度
-    const configSpeed = config.uiOptions.animationSpeed;
-    const delay = Math.max(50, 500 / (simulationSpeed * configSpeed));
-    
-    simulationRef.current = setTimeout(() => {
-      simulateBattle();
-    }, delay);
-  }, [battleState, simulationSpeed, balanceParameters, config.uiOptions, bonds]);
-
-  // 应用羁绊效果的辅助函数
-  const applyBondEffects = (bondsList: Bond[], alphaUnits: Unit[], betaUnits: Unit[]) => {
-    const result = {
-      alpha: [] as Bond[],
-      beta: [] as Bond[]
-    };
-    
-    bondsList.forEach(bond => {
-      // 检查A队是否满足羁绊要求
-      const alphaMatches = alphaUnits.filter(unit => 
-        bond.requiredTypes.includes(unit.type)
-      ).length;
-      
-      // 检查B队是否满足羁绊要求
-      const betaMatches = betaUnits.filter(unit => 
-        bond.requiredTypes.includes(unit.type)
-      ).length;
-      
-      // 如果满足要求，将羁绊添加到相应队伍
-      if (alphaMatches >= bond.minUnits) {
-        result.alpha.push(bond);
-      }
-      
-      if (betaMatches >= bond.minUnits) {
-        result.beta.push(bond);
-      }
-    });
-    
-    return result;
-  };
-  
-  // 获取羁绊修正值的辅助函数
-  const getBondModifier = (
-    appliedBonds: {alpha: Bond[], beta: Bond[]}, 
-    unit: Unit, 
-    statType: 'attack' | 'defense' | 'magicPower' | 'magicResistance' | 'speed' | 'maxHP' | 'critRate'
-  ) => {
-    let modifier = 0;
-    
-    // 确定检查哪个队伍的羁绊
-    const teamBonds = unit.team === 'alpha' ? appliedBonds.alpha : appliedBonds.beta;
-    
-    // 累计所有适用羁绊的效果
-    teamBonds.forEach(bond => {
-      bond.effects.forEach(effect => {
-        if (effect.target === statType) {
-          modifier += effect.type === 'buff' ? effect.value : -effect.value;
-        }
-      });
-    });
-    
-    return modifier;
-  };
-
   const setTerrain = useCallback((terrain: TerrainType) => {
     setActiveTerrain(terrain);
     if (battleState) {
@@ -746,9 +622,9 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
     
     if (!isSimulating) {
-      simulateBattle();
+      stepBattle();
     }
-  }, [battleState, isSimulating, startBattle, simulateBattle]);
+  }, [battleState, isSimulating, startBattle, stepBattle]);
 
   return (
     <GameContext.Provider value={{
@@ -778,6 +654,8 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
       isSimulationRunning: isSimulating,
       activeTerrain,
       setTerrain,
+      terrainVariety,
+      setTerrainVariety,
       advanceBattleRound,
       battleLog,
       balanceParameters,
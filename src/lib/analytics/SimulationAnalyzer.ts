@@ -114,8 +114,9 @@ export class SimulationAnalyzer {
       const winner = battle.winner;
       if (!winner) return;
 
-      const winningTeam = battle.teams[winner];
-      const losingTeam = battle.teams[winner === 'alpha' ? 'beta' : 'alpha'];
+      // 召唤物不计入单位类型胜率
+      const winningTeam = battle.teams[winner].filter(unit => !unit.summoned);
+      const losingTeam = battle.teams[winner === 'alpha' ? 'beta' : 'alpha'].filter(unit => !unit.summoned);
 
       // 统计获胜方单位
       winningTeam.forEach(unit => {
@@ -194,6 +195,9 @@ export class SimulationAnalyzer {
     
     // 分析热门阵容
     const topCompositions = this.analyzeTopCompositions();
+    
+    // 统计元素反应
+    const reactionCounts = this.analyzeReactionCounts();
 
     return {
       unitWinRates,
@@ -203,10 +207,26 @@ export class SimulationAnalyzer {
       comebackRate,
       economyImpact,
       averageBattleDuration,
-      topCompositions
+      topCompositions,
+      reactionCounts
     };
   }
 
+  // 统计元素反应触发次数 (按元素组合)
+  analyzeReactionCounts(): Record<string, number> {
+    const counts: Record<string, number> = {};
+
+    this.battleHistory.forEach(battle => {
+      battle.log.forEach(entry => {
+        if (entry.action === 'reaction' && entry.reaction) {
+          counts[entry.reaction] = (counts[entry.reaction] || 0) + 1;
+        }
+      });
+    });
+
+    return counts;
+  }
+
   // 获取智能推荐
   getBalanceRecommendations(): {
     unitAdjustments: Array<{ unitType: string; issue: string; recommendation: string }>;
@@ -360,6 +380,7 @@ export class SimulationAnalyzer {
     this.battleHistory.forEach(battle => {
       ['alpha', 'beta'].forEach(team => {
         const comp = battle.teams[team as 'alpha' | 'beta']
+          .filter(u => !u.summoned)
           .map(u => u.type)
           .sort()
           .join(',');
@@ -3,6 +3,8 @@ import { BattleConfiguration } from '@/types/battle';
 import { EconomyConfiguration } from '@/types/economy';
 import { generateSobolSequence, generateLatinHypercubeSampling } from './sampling/SobolSequence';
 import { SimulationResult, UnitEcosystem, SkillSynergy } from '@/types/balance';
+import { UNIT_TYPE_ALIASES } from '@/lib/economy/PlayerArchetypes';
+import { DEFAULT_UNIT_ECOSYSTEM } from '@/lib/config/GameConfigManager';
 
 /**
  * 平衡模拟器 - 用于测试不同参数组合的平衡性
@@ -227,22 +229,14 @@ export class BalanceSimulator {
   private simulateCounterEffects(params: Record<string, number>): Record<string, number> {
     const effects: Record<string, number> = {};
     
-    // 如果没有设置单位生态链配置，则使用默认的三角克制
+    // 如果没有设置单位生态链配置，则使用默认配置中的克制关系
     const counterMultiplier = params.counterMultiplier || 1.5;
+    const counters = (this.unitEcosystem ?? DEFAULT_UNIT_ECOSYSTEM).counterRelationships;
     
-    // 默认三角克制关系: 战士→法师→弓箭手→战士
-    const defaultCounters = {
-      'Warrior': ['Mage'],
-      'Mage': ['Archer'],
-      'Archer': ['Warrior'],
-      'Knight': ['Assassin'],
-      'Assassin': ['Priest'],
-      'Priest': ['Merchant'],
-      'Merchant': ['Knight']
-    };
-    
-    // 计算克制带来的胜率影响
-    Object.entries(defaultCounters).forEach(([unit, countered]) => {
+    // 计算克制带来的胜率影响 (生态链按中文类型配置，胜率模拟使用英文类型)
+    Object.entries(counters).forEach(([counterType, counteredTypes]) => {
+      const unit = UNIT_TYPE_ALIASES[counterType] ?? counterType;
+      const countered = counteredTypes.map(type => UNIT_TYPE_ALIASES[type] ?? type);
       effects[unit] = 0;
       
       countered.forEach(target => {
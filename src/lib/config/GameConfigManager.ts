@@ -1,6 +1,11 @@
 
 import { BalanceParameters } from "@/context/GameContext";
 import { ConfigVersioner } from "@/lib/utils/ConfigVersioner";
+import { SkillSynergy, UnitEcosystem, EquipmentSystem } from "@/types/balance";
+import { DamageFormulaId, DAMAGE_FORMULAS, DEFAULT_DAMAGE_FORMULA } from "@/lib/simulation/DamageFormula";
+import { DEFAULT_UNIT_TYPE_TRIGGERS } from "@/lib/simulation/TriggerSystem";
+import { UnitRole, DEFAULT_UNIT_ROLES } from "@/lib/simulation/UnitAI";
+import { TriggerDefinition } from "@/types/battle";
 
 export interface GameFeatureFlag {
   enabled: boolean;
@@ -11,7 +16,13 @@ export interface GameFeatureFlag {
 export interface GameConfig {
   version: string;
   balanceParameters: BalanceParameters;
+  damageFormula: DamageFormulaId; // 战斗伤害减免公式
   featureFlags: Record<string, GameFeatureFlag>;
+  skillSynergy: SkillSynergy;
+  unitEcosystem: UnitEcosystem;
+  equipmentSystem: EquipmentSystem;
+  unitRoles: Record<string, UnitRole>;                     // 单位类型 → AI 职业定位
+  unitTypeTriggers: Record<string, TriggerDefinition[]>;   // 单位类型 → 被动触发器 (如辅助单位的增益行动)
   uiOptions: {
     showDetailedStats: boolean;
     animationSpeed: number;
@@ -46,6 +57,76 @@ const DEFAULT_FEATURE_FLAGS: Record<string, GameFeatureFlag> = {
     enabled: false,
     name: "装备系统",
     description: "单位可以装备物品获得属性提升"
+  },
+  realtimeCombat: {
+    enabled: false,
+    name: "连续时间战斗",
+    description: "按攻击速度和施法时间连续结算战斗，攻击与受伤获得法力，满法力自动施放技能"
+  },
+  unitEcosystem: {
+    enabled: false,
+    name: "单位生态链",
+    description: "单位类型之间的克制关系与连续攻击同一目标的连击加成会影响伤害"
+  }
+};
+
+// 默认单位生态链: 克制关系、克制系数 (按攻击方类型，与单位的中文类型一致)、地形影响与连击系数
+export const DEFAULT_UNIT_ECOSYSTEM: UnitEcosystem = {
+  counterRelationships: {
+    "战士": ["法师"],
+    "法师": ["射手"],
+    "射手": ["战士"],
+    "骑士": ["刺客"],
+    "刺客": ["牧师"],
+    "牧师": ["商人"],
+    "商人": ["骑士"]
+  },
+  counterMultipliers: {
+    "战士": 1.2,
+    "法师": 1.2,
+    "射手": 1.2,
+    "骑士": 1.2,
+    "刺客": 1.2,
+    "牧师": 1.2,
+    "商人": 1.2
+  },
+  environmentalFactors: {},
+  comboMultipliers: {
+    base: 0.05,
+    decay: 0.2,
+    maxStack: 3
+  }
+};
+
+// 默认装备: 属性修正为百分比 (与羁绊、派系加成一致)，适配系数按单位类型
+export const DEFAULT_EQUIPMENT_SYSTEM: EquipmentSystem = {
+  items: {
+    "long-sword": { name: "长剑", rarity: "common", statModifiers: { attack: 0.15 } },
+    "chain-vest": { name: "锁子甲", rarity: "common", statModifiers: { defense: 0.2 } },
+    "giants-belt": { name: "巨人腰带", rarity: "common", statModifiers: { maxHP: 0.15 } },
+    "magic-rod": { name: "法杖", rarity: "common", statModifiers: { magicPower: 0.2 } },
+    "negatron-cloak": { name: "抗魔斗篷", rarity: "common", statModifiers: { magicResistance: 0.2 } },
+    "sparring-gloves": { name: "拳套", rarity: "uncommon", statModifiers: { critRate: 0.1 } },
+    "vampiric-fang": { name: "吸血獠牙", rarity: "rare", statModifiers: { lifesteal: 0.15 } },
+    "bramble-vest": { name: "荆棘甲", rarity: "rare", statModifiers: { defense: 0.1, thorns: 0.2 } }
+  },
+  setCombinations: {
+    "战神套装": {
+      requiredItems: ["long-sword", "sparring-gloves"],
+      bonusEffect: { description: "攻击力与暴击率额外提升", statModifiers: { attack: 0.1, critRate: 0.05 } }
+    },
+    "守护者套装": {
+      requiredItems: ["chain-vest", "giants-belt", "bramble-vest"],
+      bonusEffect: { description: "获得初始护盾", statModifiers: { shield: 0.15 } }
+    }
+  },
+  equipmentAffinities: {
+    "战士": { "long-sword": 1.2, "chain-vest": 1.2 },
+    "骑士": { "chain-vest": 1.5, "giants-belt": 1.2, "bramble-vest": 1.3 },
+    "法师": { "magic-rod": 1.5, "long-sword": 0.5 },
+    "射手": { "long-sword": 1.2, "sparring-gloves": 1.3 },
+    "刺客": { "sparring-gloves": 1.5, "vampiric-fang": 1.2 },
+    "牧师": { "magic-rod": 1.2, "chain-vest": 0.8 }
   }
 };
 
@@ -60,7 +141,23 @@ const DEFAULT_CONFIG: GameConfig = {
     goldScaling: 1.2,
     interestRate: 0.1
   },
+  damageFormula: DEFAULT_DAMAGE_FORMULA,
   featureFlags: DEFAULT_FEATURE_FLAGS,
+  skillSynergy: {
+    // 元素组合 (不分先后，用 + 连接) → 反应
+    elementalReactions: {
+      "fire+ice": { name: "融化", multiplier: 1.5, effectDuration: 0 },
+      "fire+wind": { name: "燎原", multiplier: 1.2, effectDuration: 3 },
+      "fire+water": { name: "蒸发", multiplier: 1.3, effectDuration: 0 },
+      "ice+water": { name: "冻结", multiplier: 1.1, effectDuration: 2 },
+      "lightning+water": { name: "感电", multiplier: 1.2, effectDuration: 2 }
+    },
+    teamBonds: {}
+  },
+  unitEcosystem: DEFAULT_UNIT_ECOSYSTEM,
+  equipmentSystem: DEFAULT_EQUIPMENT_SYSTEM,
+  unitRoles: DEFAULT_UNIT_ROLES,
+  unitTypeTriggers: DEFAULT_UNIT_TYPE_TRIGGERS,
   uiOptions: {
     showDetailedStats: true,
     animationSpeed: 1.0,
@@ -115,6 +212,15 @@ export class GameConfigManager {
     this.notifyListeners();
   }
   
+  /**
+   * 切换伤害减免公式
+   */
+  updateDamageFormula(formula: DamageFormulaId): void {
+    this.config.damageFormula = formula;
+    this.saveConfig();
+    this.notifyListeners();
+  }
+  
   /**
    * 切换特性开关
    */
@@ -138,6 +244,51 @@ export class GameConfigManager {
     this.notifyListeners();
   }
   
+  /**
+   * 更新技能协同 (元素反应) 配置
+   */
+  updateSkillSynergy(synergy: SkillSynergy): void {
+    this.config.skillSynergy = synergy;
+    this.saveConfig();
+    this.notifyListeners();
+  }
+  
+  /**
+   * 更新单位生态链 (克制与连击) 配置
+   */
+  updateUnitEcosystem(ecosystem: UnitEcosystem): void {
+    this.config.unitEcosystem = ecosystem;
+    this.saveConfig();
+    this.notifyListeners();
+  }
+  
+  /**
+   * 更新装备定义、套装与适配系数
+   */
+  updateEquipmentSystem(equipment: EquipmentSystem): void {
+    this.config.equipmentSystem = equipment;
+    this.saveConfig();
+    this.notifyListeners();
+  }
+  
+  /**
+   * 更新单位类型的 AI 职业定位
+   */
+  updateUnitRoles(roles: Record<string, UnitRole>): void {
+    this.config.unitRoles = roles;
+    this.saveConfig();
+    this.notifyListeners();
+  }
+  
+  /**
+   * 更新单位类型的被动触发器
+   */
+  updateUnitTypeTriggers(triggers: Record<string, TriggerDefinition[]>): void {
+    this.config.unitTypeTriggers = triggers;
+    this.saveConfig();
+    this.notifyListeners();
+  }
+  
   /**
    * 更新UI选项
    */
@@ -212,6 +363,50 @@ export class GameConfigManager {
       });
     }
     
+    // 未知的伤害公式回退为默认公式
+    if (savedConfig.damageFormula && savedConfig.damageFormula in DAMAGE_FORMULAS) {
+      result.damageFormula = savedConfig.damageFormula;
+    }
+    
+    // 合并技能协同配置
+    if (savedConfig.skillSynergy) {
+      result.skillSynergy = {
+        ...defaultConfig.skillSynergy,
+        ...savedConfig.skillSynergy
+      };
+    }
+    
+    // 合并单位生态链配置
+    if (savedConfig.unitEcosystem) {
+      result.unitEcosystem = {
+        ...defaultConfig.unitEcosystem,
+        ...savedConfig.unitEcosystem
+      };
+    }
+    
+    // 合并装备配置
+    if (savedConfig.equipmentSystem) {
+      result.equipmentSystem = {
+        ...defaultConfig.equipmentSystem,
+        ...savedConfig.equipmentSystem
+      };
+    }
+    
+    // 单位类型配置按类型覆盖默认值
+    if (savedConfig.unitRoles) {
+      result.unitRoles = {
+        ...defaultConfig.unitRoles,
+        ...savedConfig.unitRoles
+      };
+    }
+    
+    if (savedConfig.unitTypeTriggers) {
+      result.unitTypeTriggers = {
+        ...defaultConfig.unitTypeTriggers,
+        ...savedConfig.unitTypeTriggers
+      };
+    }
+    
     // 合并UI选项
     if (savedConfig.uiOptions) {
       result.uiOptions = {
@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+import { EconomyConfiguration, EconomyEvent, Player } from '@/types/economy';
+import { SeededRandom } from '@/lib/utils/SeededRandom';
+import { EconomyManager } from './EconomyManager';
+
+const CONFIG: EconomyConfiguration = {
+  startingGold: 0,
+  interestThresholds: [10, 20, 30, 40, 50],
+  interestCap: 3,
+  levelCosts: [2, 6, 10],
+  unitPoolSize: {},
+  itemPoolSize: {},
+  roundIncome: { base: 5, winBonus: 1, loseBonus: 0 },
+  streakBonus: { win: [0, 1, 2], lose: [0, 1, 3] },
+  sellingReturn: 0.5
+};
+
+const createPlayer = (id: string, gold: number): Player => ({
+  id, name: id, gold, level: 1, experience: 0, units: [], items: [],
+  archetype: 'balanced', winStreak: 0, loseStreak: 0, rank: 0
+});
+
+const createEvent = (id: string, duration: number, modifier: number): EconomyEvent => ({
+  id, name: id, description: '', duration, active: false, roundsLeft: 0,
+  effects: [{ type: 'goldIncome', target: 'all', modifier }]
+});
+
+describe('EconomyManager 利息', () => {
+  const economy = new EconomyManager(CONFIG);
+
+  it('每达到一个阈值获得 1 金币', () => {
+    expect(economy.calculateInterest(0)).toBe(0);
+    expect(economy.calculateInterest(9)).toBe(0);
+    expect(economy.calculateInterest(10)).toBe(1);
+    expect(economy.calculateInterest(29)).toBe(2);
+  });
+
+  it('不超过利息上限', () => {
+    expect(economy.calculateInterest(50)).toBe(3);
+    expect(economy.calculateInterest(999)).toBe(3);
+  });
+});
+
+describe('EconomyManager 回合收入', () => {
+  it('基础收入加利息，并记录收入明细', () => {
+    const economy = new EconomyManager(CONFIG);
+    const player = createPlayer('p1', 23);
+    economy.addPlayer(player);
+
+    economy.startNewRound();
+
+    expect(player.gold).toBe(23 + 5 + 2);
+    expect(economy.getIncomeHistory('p1')).toEqual([{
+      round: 1, playerId: 'p1', goldBefore: 23, base: 5, interest: 2, result: 0, streak: 0, event: 0, total: 7
+    }]);
+  });
+
+  it('胜利奖励与连胜奖励按连胜场数计算，超出奖励表时沿用最后一项', () => {
+    const economy = new EconomyManager(CONFIG);
+    const player = createPlayer('p1', 0);
+    economy.addPlayer(player);
+
+    const streaks: number[] = [];
+    for (let round = 0; round < 4; round++) {
+      economy.updatePlayerStatus('p1', true);
+      player.gold = 0;
+      economy.startNewRound();
+      streaks.push(player.gold);
+    }
+
+    expect(streaks).toEqual([6, 7, 8, 8]);
+  });
+
+  it('失败后清空连胜，按连败奖励表计算', () => {
+    const economy = new EconomyManager(CONFIG);
+    const player = createPlayer('p1', 0);
+    economy.addPlayer(player);
+    economy.updatePlayerStatus('p1', true);
+    economy.updatePlayerStatus('p1', false);
+    economy.updatePlayerStatus('p1', false);
+
+    economy.startNewRound();
+
+    expect(player.winStreak).toBe(0);
+    expect(economy.getIncomeHistory('p1')[0]).toMatchObject({ result: 0, streak: 1, total: 6 });
+  });
+
+  it('goldScaling 缩放基础收入', () => {
+    const economy = new EconomyManager({ ...CONFIG, goldScaling: 1.5 });
+    const player = createPlayer('p1', 0);
+    economy.addPlayer(player);
+
+    economy.startNewRound();
+
+    expect(economy.getIncomeHistory('p1')[0].base).toBe(8);
+  });
+});
+
+describe('EconomyManager 经济事件', () => {
+  it('预定事件在指定回合开始时生效，持续 duration 回合后结束', () => {
+    const economy = new EconomyManager({
+      ...CONFIG,
+      scheduledEvents: [{ round: 2, event: createEvent('boom', 2, 1) }]
+    });
+    const player = createPlayer('p1', 0);
+    economy.addPlayer(player);
+
+    const events: number[] = [];
+    for (let round = 1; round <= 4; round++) {
+      player.gold = 0;
+      economy.startNewRound();
+      events.push(economy.getIncomeHistory('p1')[round - 1].event);
+    }
+
+    expect(events).toEqual([0, 5, 5, 0]);
+    expect(economy.getRoundLog().map(entry => [entry.round, entry.type])).toEqual([[2, 'eventStart'], [4, 'eventEnd']]);
+    expect(economy.getState().globalEvents).toEqual([]);
+  });
+
+  it('同ID事件再次触发时替换进行中的事件并重新计时', () => {
+    const economy = new EconomyManager(CONFIG);
+    economy.startNewRound();
+    economy.triggerEvent(createEvent('boom', 2, 0.5));
+    economy.startNewRound();
+    economy.triggerEvent(createEvent('boom', 3, 0.2));
+
+    const [event] = economy.getState().globalEvents;
+    expect(economy.getState().globalEvents).toHaveLength(1);
+    expect(event.roundsLeft).toBe(3);
+    expect(economy.getEventMultiplier('goldIncome')).toBeCloseTo(1.2);
+  });
+
+  it('随机事件只在未激活时按概率判定，相同种子结果相同', () => {
+    const config: EconomyConfiguration = {
+      ...CONFIG,
+      randomEvents: [{ event: createEvent('luck', 2, 0.5), probability: 0.5 }]
+    };
+    const activeRounds = (seed: number) => {
+      const economy = new EconomyManager(config, new SeededRandom(seed));
+      const rounds: boolean[] = [];
+      for (let round = 1; round <= 20; round++) {
+        economy.startNewRound();
+        rounds.push(economy.getState().globalEvents.length > 0);
+      }
+      return { rounds, starts: economy.getRoundLog().filter(entry => entry.type === 'eventStart').length };
+    };
+
+    const first = activeRounds(9);
+    expect(activeRounds(9)).toEqual(first);
+    expect(first.starts).toBeGreaterThan(0);
+    expect(first.starts).toBeLessThanOrEqual(10);
+  });
+
+  it('收入倍率不低于 0', () => {
+    const economy = new EconomyManager(CONFIG);
+    const player = createPlayer('p1', 0);
+    economy.addPlayer(player);
+    economy.triggerEvent(createEvent('crash', 2, -2));
+
+    economy.startNewRound();
+
+    expect(economy.getEventMultiplier('goldIncome')).toBe(0);
+    expect(player.gold).toBe(0);
+  });
+});
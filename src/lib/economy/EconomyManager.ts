@@ -1,22 +1,44 @@
 
-import { Player, MarketItem, EconomyState, EconomyConfiguration } from '@/types/economy';
+import { Player, MarketItem, EconomyState, EconomyConfiguration, EconomyEvent, EconomyLogEntry, PlayerShop, IncomeBreakdown } from '@/types/economy';
+import { mergeUnitCopies } from '@/lib/simulation/StarSystem';
+import { RandomSource } from '@/lib/utils/SeededRandom';
+import { UnitPool, DEFAULT_SHOP_SLOTS, DEFAULT_REROLL_COST, copiesForStars } from './UnitPool';
+
+export const DEFAULT_EXPERIENCE_COST = 4;
+export const DEFAULT_EXPERIENCE_PER_PURCHASE = 4;
+export const DEFAULT_PASSIVE_EXPERIENCE = 2;
+
+// 未配置 streakBonus 时使用的连胜/连败奖励表 (下标为连胜/连败场数 - 1)
+export const DEFAULT_STREAK_BONUS: EconomyState['streakBonus'] = {
+  win: [1, 2, 3, 4],
+  lose: [1, 2, 2, 3]
+};
+
+// 默认使用 Math.random；对局模拟传入种子随机数源以保证可复现
+const MATH_RANDOM: RandomSource = { next: () => Math.random() };
 
 export class EconomyManager {
   private state: EconomyState;
   private config: EconomyConfiguration;
+  private unitPool: UnitPool | null = null;
+  private shops: Record<string, PlayerShop> = {};
+  private incomeHistory: IncomeBreakdown[] = [];
+  private scheduledEvents: { round: number; event: EconomyEvent }[];
+  private roundLog: EconomyLogEntry[] = [];
 
-  constructor(config: EconomyConfiguration) {
+  constructor(config: EconomyConfiguration, private random: RandomSource = MATH_RANDOM) {
     this.config = config;
+    this.scheduledEvents = (config.scheduledEvents ?? []).map(entry => ({ ...entry }));
     this.state = {
       roundNumber: 0,
       phase: 'preparation',
       players: [],
       market: [],
-      interestRate: 0.1,
+      interestRate: config.interestRate ?? 0.1,
       incomeBase: config.roundIncome.base,
       streakBonus: {
-        win: [1, 2, 3, 4],
-        lose: [1, 2, 2, 3]
+        win: [...(config.streakBonus?.win ?? DEFAULT_STREAK_BONUS.win)],
+        lose: [...(config.streakBonus?.lose ?? DEFAULT_STREAK_BONUS.lose)]
       },
       globalEvents: []
     };
@@ -26,43 +48,199 @@ export class EconomyManager {
   startNewRound(): void {
     this.state.roundNumber++;
     this.state.phase = 'preparation';
+    this.updateEvents();
     this.updateMarket();
     this.distributeIncome();
+    this.distributeExperience();
+    this.refreshShops();
+  }
+
+  // 安排事件在指定回合开始时触发
+  scheduleEvent(event: EconomyEvent, round: number): void {
+    this.scheduledEvents.push({ round, event });
+  }
+
+  // 立即触发事件，同ID的进行中事件会被替换
+  triggerEvent(event: EconomyEvent): void {
+    this.state.globalEvents = this.state.globalEvents.filter(e => e.id !== event.id);
+    this.state.globalEvents.push({
+      ...event,
+      effects: event.effects.map(effect => ({ ...effect })),
+      active: true,
+      roundsLeft: Math.max(1, event.duration)
+    });
+    this.log('eventStart', event, `事件开始: ${event.name}`);
+  }
+
+  // 回合开始: 进行中事件剩余回合数减一并移除到期事件，再触发本回合的预定事件与随机事件
+  private updateEvents(): void {
+    this.state.globalEvents = this.state.globalEvents.filter(event => {
+      event.roundsLeft--;
+      if (event.roundsLeft > 0) return true;
+
+      event.active = false;
+      this.log('eventEnd', event, `事件结束: ${event.name}`);
+      return false;
+    });
+
+    this.scheduledEvents
+      .filter(entry => entry.round === this.state.roundNumber)
+      .forEach(entry => this.triggerEvent(entry.event));
+
+    (this.config.randomEvents ?? []).forEach(({ event, probability }) => {
+      if (this.state.globalEvents.some(e => e.id === event.id)) return;
+      if (this.random.next() < probability) {
+        this.triggerEvent(event);
+      }
+    });
+  }
+
+  // 进行中事件对指定类型的总倍率: 1 + 目标为 "all" 或命中 targets 的修正之和 (不低于0)
+  getEventMultiplier(type: EconomyEvent['effects'][number]['type'], targets: string[] = []): number {
+    const modifier = this.state.globalEvents
+      .flatMap(event => event.effects)
+      .filter(effect => effect.type === type && (effect.target === 'all' || targets.includes(effect.target)))
+      .reduce((sum, effect) => sum + effect.modifier, 0);
+    return Math.max(0, 1 + modifier);
+  }
+
+  private log(type: EconomyLogEntry['type'], event: EconomyEvent, message: string): void {
+    this.roundLog.push({ round: this.state.roundNumber, type, eventId: event.id, message });
+  }
+
+  // 回合日志，可按回合筛选
+  getRoundLog(round?: number): EconomyLogEntry[] {
+    return this.roundLog
+      .filter(entry => round === undefined || entry.round === round)
+      .map(entry => ({ ...entry }));
+  }
+
+  // 设置阶段 (对局模拟在战斗与购物阶段切换)
+  setPhase(phase: EconomyState['phase']): void {
+    this.state.phase = phase;
+  }
+
+  // 设置市场商品，如对局中可购买的单位
+  setMarket(items: MarketItem[]): void {
+    this.state.market = items.map(item => ({ ...item }));
   }
 
   // 更新市场
   private updateMarket(): void {
-    // 更新物品价格和库存
-    this.state.market = this.state.market.map(item => ({
-      ...item,
-      currentPrice: this.calculateNewPrice(item),
-      quantity: this.restockItem(item)
-    }));
+    // 更新物品价格和库存；单位按固定费用出售，价格再按进行中事件修正
+    this.state.market = this.state.market.map(item => {
+      const price = item.type === 'unit' ? item.basePrice : this.calculateNewPrice(item);
+      return {
+        ...item,
+        currentPrice: Math.round(price * this.getEventMultiplier('marketPrice', [item.id, item.type])),
+        quantity: this.restockItem(item)
+      };
+    });
   }
 
   // 计算新价格
   private calculateNewPrice(item: MarketItem): number {
-    const demandFactor = Math.random() * 0.4 + 0.8; // 0.8-1.2的随机需求系数
+    const demandFactor = this.random.next() * 0.4 + 0.8; // 0.8-1.2的随机需求系数
     return Math.round(item.basePrice * demandFactor);
   }
 
   // 补充库存
   private restockItem(item: MarketItem): number {
     const baseStock = this.config.itemPoolSize[item.type] || 5;
-    return Math.max(item.quantity, Math.floor(baseStock * Math.random()));
+    return Math.max(item.quantity, Math.floor(baseStock * this.random.next()));
   }
 
-  // 分发收入
+  // 分发收入: 基础收入 (按 goldScaling 缩放) + 利息 + 上回合胜负奖励 + 连胜/连败奖励，再按事件修正，并记录明细
   private distributeIncome(): void {
     this.state.players.forEach(player => {
-      const baseIncome = this.config.roundIncome.base;
-      const interestIncome = Math.floor(player.gold * this.state.interestRate);
-      const streakBonus = this.calculateStreakBonus(player);
+      const base = Math.round(this.config.roundIncome.base * (this.config.goldScaling ?? 1));
+      const interest = this.calculateInterest(player.gold);
+      const result = player.winStreak > 0
+        ? this.config.roundIncome.winBonus
+        : player.loseStreak > 0 ? this.config.roundIncome.loseBonus : 0;
+      const streak = this.calculateStreakBonus(player);
+      const subtotal = base + interest + result + streak;
+      const event = Math.round(subtotal * (this.getEventMultiplier('goldIncome', [player.id]) - 1));
+      const total = subtotal + event;
       
-      player.gold += baseIncome + interestIncome + streakBonus;
+      this.incomeHistory.push({
+        round: this.state.roundNumber,
+        playerId: player.id,
+        goldBefore: player.gold,
+        base,
+        interest,
+        result,
+        streak,
+        event,
+        total
+      });
+      player.gold += total;
     });
   }
 
+  // 利息: 金币每达到一个阈值获得 1 金币，不超过 interestCap
+  calculateInterest(gold: number): number {
+    const crossed = this.config.interestThresholds.filter(threshold => gold >= threshold).length;
+    return Math.min(this.config.interestCap, crossed);
+  }
+
+  // 各回合各玩家的收入明细，可按玩家筛选
+  getIncomeHistory(playerId?: string): IncomeBreakdown[] {
+    return this.incomeHistory
+      .filter(entry => !playerId || entry.playerId === playerId)
+      .map(entry => ({ ...entry }));
+  }
+
+  // 每回合自动获得经验
+  private distributeExperience(): void {
+    const amount = this.config.passiveExperience ?? DEFAULT_PASSIVE_EXPERIENCE;
+    this.state.players.forEach(player => this.gainExperience(player, this.scaleExperience(player, amount)));
+  }
+
+  // 最高等级为 levelCosts 长度 + 1
+  getMaxLevel(): number {
+    return this.config.levelCosts.length + 1;
+  }
+
+  // 当前等级升级所需经验，已满级时为 null
+  getExperienceToLevel(level: number): number | null {
+    return level < this.getMaxLevel() ? this.config.levelCosts[level - 1] : null;
+  }
+
+  // 增加经验并按 levelCosts 连续升级，满级后不再累积经验
+  private gainExperience(player: Player, amount: number): void {
+    player.experience += amount;
+
+    let required = this.getExperienceToLevel(player.level);
+    while (required !== null && player.experience >= required) {
+      player.experience -= required;
+      player.level++;
+      required = this.getExperienceToLevel(player.level);
+    }
+    if (required === null) {
+      player.experience = 0;
+    }
+  }
+
+  getExperienceCost(): number {
+    return this.config.experienceCost ?? DEFAULT_EXPERIENCE_COST;
+  }
+
+  // 花费金币购买经验
+  buyExperience(playerId: string): boolean {
+    const player = this.state.players.find(p => p.id === playerId);
+    const cost = this.getExperienceCost();
+    if (!player || player.gold < cost || player.level >= this.getMaxLevel()) return false;
+
+    player.gold -= cost;
+    this.gainExperience(player, this.scaleExperience(player, this.config.experiencePerPurchase ?? DEFAULT_EXPERIENCE_PER_PURCHASE));
+    return true;
+  }
+
+  private scaleExperience(player: Player, amount: number): number {
+    return Math.round(amount * this.getEventMultiplier('expGain', [player.id]));
+  }
+
   // 计算连胜/连败奖励
   private calculateStreakBonus(player: Player): number {
     if (player.winStreak > 0) {
@@ -88,6 +266,11 @@ export class EconomyManager {
     player.gold -= item.currentPrice;
     item.quantity--;
     
+    if (item.type === 'unit') {
+      this.addUnit(player, item.id);
+      return true;
+    }
+    
     // 添加到玩家物品栏
     const playerItem = player.items.find(i => i.itemId === itemId);
     if (playerItem) {
@@ -104,6 +287,111 @@ export class EconomyManager {
     return true;
   }
 
+  // 单位加入玩家阵容，凑齐三个同星级副本时自动合成升星
+  private addUnit(player: Player, unitId: string): void {
+    player.units.push({
+      id: crypto.randomUUID(),
+      unitId,
+      level: 1,
+      stars: 1,
+      items: []
+    });
+    player.units = mergeUnitCopies(player.units).units;
+  }
+
+  // 启用共享卡池，之后每回合开始时刷新各玩家商店
+  setUnitPool(pool: UnitPool | null): void {
+    this.unitPool = pool;
+    this.shops = {};
+  }
+
+  getUnitPool(): UnitPool | null {
+    return this.unitPool;
+  }
+
+  getShop(playerId: string): PlayerShop {
+    const shop = this.shops[playerId];
+    return shop ? { slots: [...shop.slots], locked: shop.locked } : { slots: [], locked: false };
+  }
+
+  // 免费刷新所有未锁定的商店 (回合开始)
+  refreshShops(): void {
+    this.state.players.forEach(player => this.refreshShop(player.id));
+  }
+
+  // 未购买的单位放回卡池后按玩家等级重新抽取；锁定的商店只有 force 时刷新
+  private refreshShop(playerId: string, force: boolean = false): boolean {
+    const player = this.state.players.find(p => p.id === playerId);
+    if (!player || !this.unitPool) return false;
+
+    const shop = this.shops[playerId] ??= { slots: [], locked: false };
+    if (shop.locked && !force) return false;
+
+    const pool = this.unitPool;
+    shop.slots.forEach(unitId => unitId && pool.release(unitId));
+    shop.slots = Array.from(
+      { length: this.config.shopSlots ?? DEFAULT_SHOP_SLOTS },
+      () => pool.draw(player.level, target => this.getEventMultiplier('dropRate', [target]))
+    );
+    return true;
+  }
+
+  getRerollCost(): number {
+    return this.config.rerollCost ?? DEFAULT_REROLL_COST;
+  }
+
+  // 花费金币刷新商店，同时解除锁定
+  rerollShop(playerId: string): boolean {
+    const player = this.state.players.find(p => p.id === playerId);
+    const cost = this.getRerollCost();
+    if (!player || !this.unitPool || player.gold < cost) return false;
+
+    player.gold -= cost;
+    this.lockShop(playerId, false);
+    return this.refreshShop(playerId, true);
+  }
+
+  lockShop(playerId: string, locked: boolean = true): void {
+    const shop = this.shops[playerId];
+    if (shop) {
+      shop.locked = locked;
+    }
+  }
+
+  // 商店单位价格: 单位费用按进行中事件的市场价格修正
+  getUnitPrice(unitId: string): number {
+    const cost = this.unitPool?.getCost(unitId) ?? 1;
+    return Math.round(cost * this.getEventMultiplier('marketPrice', [unitId, 'unit']));
+  }
+
+  // 购买商店指定格子中的单位
+  buyFromShop(playerId: string, slot: number): boolean {
+    const player = this.state.players.find(p => p.id === playerId);
+    const unitId = this.shops[playerId]?.slots[slot];
+    if (!player || !this.unitPool || !unitId) return false;
+
+    const cost = this.getUnitPrice(unitId);
+    if (player.gold < cost) return false;
+
+    player.gold -= cost;
+    this.shops[playerId].slots[slot] = null;
+    this.addUnit(player, unitId);
+    return true;
+  }
+
+  // 出售单位: 按星级返还 1 星副本到卡池，获得 费用 × 副本数 × 回收比例 (至少1) 金币
+  sellUnit(playerId: string, playerUnitId: string): boolean {
+    const player = this.state.players.find(p => p.id === playerId);
+    const unit = player?.units.find(u => u.id === playerUnitId);
+    if (!player || !unit || !this.unitPool) return false;
+
+    const copies = copiesForStars(unit.stars);
+    player.gold += Math.max(1, Math.floor(this.unitPool.getCost(unit.unitId) * copies * this.config.sellingReturn));
+    player.units = player.units.filter(u => u !== unit);
+    this.unitPool.release(unit.unitId, copies);
+    return true;
+  }
+
   // 出售物品
   sellItem(playerId: string, playerItemId: string): boolean {
     const player = this.state.players.find(p => p.id === playerId);
@@ -140,6 +428,20 @@ export class EconomyManager {
     this.state.players.push(player);
   }
 
+  // 移除玩家 (如对局中被淘汰)，其商店与阵容中的单位全部返还卡池
+  removePlayer(playerId: string): void {
+    const player = this.state.players.find(p => p.id === playerId);
+    if (!player) return;
+
+    if (this.unitPool) {
+      const pool = this.unitPool;
+      this.shops[playerId]?.slots.forEach(unitId => unitId && pool.release(unitId));
+      player.units.forEach(unit => pool.release(unit.unitId, copiesForStars(unit.stars)));
+    }
+    delete this.shops[playerId];
+    this.state.players = this.state.players.filter(p => p !== player);
+  }
+
   // 更新玩家状态
   updatePlayerStatus(playerId: string, won: boolean): void {
     const player = this.state.players.find(p => p.id === playerId);
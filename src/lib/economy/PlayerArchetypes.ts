@@ -1,5 +1,6 @@
 
 // 玩家策略模拟
+import { RandomSource } from '@/lib/utils/SeededRandom';
 
 export interface PlayerArchetype {
   name: string;
@@ -69,12 +70,41 @@ export const PLAYER_ARCHETYPES: Record<string, PlayerArchetype> = {
   }
 };
 
+// 中文单位类型与偏好单位 (英文) 的对应关系
+export const UNIT_TYPE_ALIASES: Record<string, string> = {
+  "战士": "Warrior",
+  "法师": "Mage",
+  "射手": "Archer",
+  "骑士": "Knight",
+  "牧师": "Priest",
+  "刺客": "Assassin",
+  "商人": "Merchant"
+};
+
+// 决策时参考的费用: 对局中由经济配置与商店实际价格传入
+export interface TurnCosts {
+  levelUp: number;                     // 购买经验，已满级时为 Infinity
+  reroll: number;
+  unit: number;                        // 未在 unitPrices 中列出的单位价格
+  unitPrices?: Record<string, number>; // 单位类型 → 商店中该类型的最低价格
+}
+
+export const DEFAULT_TURN_COSTS: TurnCosts = { levelUp: 4, reroll: 2, unit: 3 };
+
 // 玩家行为模拟器
 export class PlayerBehaviorSimulator {
-  constructor(private archetype: PlayerArchetype) {}
+  constructor(
+    private archetype: PlayerArchetype,
+    private random: RandomSource = { next: () => Math.random() }
+  ) {}
 
   // 模拟玩家回合决策
-  simulateTurn(currentGold: number, currentLevel: number, availableUnits: string[]): { 
+  simulateTurn(
+    currentGold: number, 
+    currentLevel: number, 
+    availableUnits: string[], 
+    costs: TurnCosts = DEFAULT_TURN_COSTS
+  ): { 
     action: "buy" | "reroll" | "levelup" | "save";
     unitToBuy?: string;
   } {
@@ -84,25 +114,25 @@ export class PlayerBehaviorSimulator {
     }
     
     // 计算升级决策
-    const shouldLevelUp = Math.random() < this.archetype.levelUpThreshold;
-    if (shouldLevelUp && currentGold >= 4) {
+    const shouldLevelUp = this.random.next() < this.archetype.levelUpThreshold;
+    if (shouldLevelUp && currentGold >= costs.levelUp) {
       return { action: "levelup" };
     }
     
-    // 查找偏好单位
+    // 查找买得起的偏好单位
     const preferredAvailable = availableUnits.filter(unit => 
-      this.archetype.preferredUnits.includes(unit));
+      this.archetype.preferredUnits.includes(UNIT_TYPE_ALIASES[unit] ?? unit) &&
+      (costs.unitPrices?.[unit] ?? costs.unit) <= currentGold);
     
-    // 如果有偏好单位且有足够金币
-    if (preferredAvailable.length > 0 && Math.random() < this.archetype.buyUnitRatio && currentGold >= 3) {
+    if (preferredAvailable.length > 0 && this.random.next() < this.archetype.buyUnitRatio) {
       return { 
         action: "buy", 
-        unitToBuy: preferredAvailable[Math.floor(Math.random() * preferredAvailable.length)]
+        unitToBuy: preferredAvailable[Math.floor(this.random.next() * preferredAvailable.length)]
       };
     }
     
     // 决定是否重抽
-    if (Math.random() < this.archetype.reRollRate && currentGold >= 2) {
+    if (this.random.next() < this.archetype.reRollRate && currentGold >= costs.reroll) {
       return { action: "reroll" };
     }
     
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { EconomyConfiguration, Player } from '@/types/economy';
+import { SeededRandom } from '@/lib/utils/SeededRandom';
+import { EconomyManager } from './EconomyManager';
+import { UnitPool, DEFAULT_SHOP_ODDS, copiesForStars } from './UnitPool';
+
+const CONFIG: EconomyConfiguration = {
+  startingGold: 10,
+  interestThresholds: [10, 20, 30, 40, 50],
+  interestCap: 5,
+  levelCosts: [2, 2, 6, 10, 20, 36, 56, 80],
+  unitPoolSize: { 1: 20, 2: 15, 3: 12, 4: 8, 5: 5 },
+  itemPoolSize: {},
+  roundIncome: { base: 5, winBonus: 1, loseBonus: 0 },
+  sellingReturn: 1
+};
+
+const UNIT_COSTS = { a: 1, b: 1, c: 2, d: 2, e: 3, f: 4, g: 5 };
+
+const createPlayer = (id: string, gold: number): Player => ({
+  id, name: id, gold, level: 1, experience: 0, units: [], items: [],
+  archetype: 'balanced', winStreak: 0, loseStreak: 0, rank: 0
+});
+
+const sumRemaining = (pool: UnitPool) => Object.values(pool.getRemainingByCost()).reduce((sum, count) => sum + count, 0);
+
+describe('UnitPool 抽取概率', () => {
+  it('按费用与配置确定卡池大小', () => {
+    const pool = new UnitPool(UNIT_COSTS, CONFIG, new SeededRandom(1));
+    expect(pool.getRemainingByCost()).toEqual({ 1: 40, 2: 30, 3: 12, 4: 8, 5: 5 });
+  });
+
+  it('1 级只能抽到 1 费单位', () => {
+    const pool = new UnitPool(UNIT_COSTS, CONFIG, new SeededRandom(2));
+    for (let i = 0; i < 30; i++) {
+      expect(pool.getCost(pool.draw(1)!)).toBe(1);
+    }
+  });
+
+  it('各费用档位的出现频率接近等级概率表', () => {
+    const pool = new UnitPool(UNIT_COSTS, CONFIG, new SeededRandom(3));
+    const level = 7;
+    const draws = 4000;
+    const counts = [0, 0, 0, 0, 0];
+    for (let i = 0; i < draws; i++) {
+      const unitId = pool.draw(level)!;
+      counts[pool.getCost(unitId) - 1]++;
+      pool.release(unitId);
+    }
+    DEFAULT_SHOP_ODDS[level - 1].forEach((chance, index) => {
+      expect(counts[index] / draws).toBeCloseTo(chance, 1);
+    });
+  });
+
+  it('抽到的档位为空时改抽仍有单位的档位', () => {
+    const pool = new UnitPool({ a: 1, c: 2 }, { ...CONFIG, unitPoolSize: { 1: 3, 2: 3 } }, new SeededRandom(4));
+    const drawn = Array.from({ length: 6 }, () => pool.draw(3));
+    expect(drawn.filter(unitId => unitId === 'a')).toHaveLength(3);
+    expect(drawn.filter(unitId => unitId === 'c')).toHaveLength(3);
+    expect(pool.draw(3)).toBeNull();
+  });
+
+  it('掉率修正为 0 的档位不再出现', () => {
+    const pool = new UnitPool(UNIT_COSTS, CONFIG, new SeededRandom(5));
+    for (let i = 0; i < 50; i++) {
+      const unitId = pool.draw(5, target => (target === '1' ? 0 : 1))!;
+      expect(pool.getCost(unitId)).not.toBe(1);
+      pool.release(unitId);
+    }
+  });
+});
+
+describe('UnitPool 数量守恒', () => {
+  it('商店刷新、购买、出售与淘汰后卡池加商店加阵容的副本总数不变', () => {
+    const economy = new EconomyManager(CONFIG, new SeededRandom(6));
+    const pool = new UnitPool(UNIT_COSTS, CONFIG, new SeededRandom(7));
+    const total = sumRemaining(pool);
+    const players = [createPlayer('p1', 200), createPlayer('p2', 200), createPlayer('p3', 200)];
+    players.forEach(player => economy.addPlayer(player));
+    economy.setUnitPool(pool);
+
+    const countCopies = () => {
+      const current = economy.getState().players;
+      const inShops = current.reduce((sum, player) => sum + economy.getShop(player.id).slots.filter(Boolean).length, 0);
+      const owned = current.reduce((sum, player) =>
+        sum + player.units.reduce((copies, unit) => copies + copiesForStars(unit.stars), 0), 0);
+      return sumRemaining(pool) + inShops + owned;
+    };
+
+    for (let round = 1; round <= 6; round++) {
+      economy.startNewRound();
+      economy.getState().players.forEach((player, index) => {
+        economy.buyFromShop(player.id, 0);
+        economy.buyFromShop(player.id, 1);
+        economy.rerollShop(player.id);
+        economy.buyFromShop(player.id, 2);
+        if (round % 2 === index % 2 && player.units.length > 0) {
+          economy.sellUnit(player.id, player.units[0].id);
+        }
+        expect(countCopies()).toBe(total);
+      });
+    }
+
+    expect(players.some(player => player.units.some(unit => unit.stars > 1))).toBe(true);
+
+    economy.removePlayer('p2');
+    expect(countCopies()).toBe(total);
+  });
+});
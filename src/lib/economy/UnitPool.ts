@@ -0,0 +1,121 @@
+// 共享单位卡池: 每个费用档位的单位数量有限，所有玩家的商店都从同一卡池抽取
+import { EconomyConfiguration } from '@/types/economy';
+import { RandomSource } from '@/lib/utils/SeededRandom';
+
+export const MAX_UNIT_COST = 5;
+export const DEFAULT_SHOP_SLOTS = 5;
+export const DEFAULT_REROLL_COST = 2;
+
+// 费用档位对应 unitPoolSize 中的稀有度键
+export const COST_TIER_RARITIES = ['common', 'uncommon', 'rare', 'epic', 'legendary'] as const;
+
+// 未配置时每个单位在卡池中的数量 (按费用 1-5)
+const DEFAULT_POOL_SIZES = [29, 22, 18, 12, 10];
+
+// 商店概率表: 第 i 行为玩家等级 i + 1 时抽到 1-5 费单位的概率，超出表长的等级使用最后一行
+export const DEFAULT_SHOP_ODDS: number[][] = [
+  [1, 0, 0, 0, 0],
+  [1, 0, 0, 0, 0],
+  [0.75, 0.25, 0, 0, 0],
+  [0.55, 0.30, 0.15, 0, 0],
+  [0.45, 0.33, 0.20, 0.02, 0],
+  [0.30, 0.40, 0.25, 0.05, 0],
+  [0.19, 0.30, 0.35, 0.15, 0.01],
+  [0.18, 0.25, 0.32, 0.22, 0.03],
+  [0.10, 0.20, 0.25, 0.35, 0.10]
+];
+
+// 每个星级的单位由多少个 1 星副本合成
+export const copiesForStars = (stars: number): number => Math.pow(3, Math.max(0, stars - 1));
+
+export const clampCost = (cost: number): number => Math.min(MAX_UNIT_COST, Math.max(1, Math.round(cost)));
+
+// 每个单位在卡池中的数量，unitPoolSize 可按费用 ("1"-"5") 或稀有度配置
+export function getPoolSize(config: EconomyConfiguration, cost: number): number {
+  const tier = clampCost(cost);
+  return config.unitPoolSize[tier] ?? config.unitPoolSize[COST_TIER_RARITIES[tier - 1]] ?? DEFAULT_POOL_SIZES[tier - 1];
+}
+
+/**
+ * 共享卡池 - 商店抽到的单位从卡池中取出，刷新时未购买的单位放回，出售单位时按星级返还副本
+ */
+export class UnitPool {
+  private remaining: Record<string, number> = {};
+  private costs: Record<string, number> = {};
+
+  constructor(
+    unitCosts: Record<string, number>,
+    private config: EconomyConfiguration,
+    private random: RandomSource
+  ) {
+    Object.entries(unitCosts).forEach(([unitId, cost]) => {
+      this.costs[unitId] = clampCost(cost);
+      this.remaining[unitId] = getPoolSize(config, cost);
+    });
+  }
+
+  getCost(unitId: string): number {
+    return this.costs[unitId] ?? 1;
+  }
+
+  getRemaining(unitId: string): number {
+    return this.remaining[unitId] ?? 0;
+  }
+
+  // 各费用档位剩余的单位总数
+  getRemainingByCost(): Record<number, number> {
+    const totals: Record<number, number> = {};
+    Object.entries(this.remaining).forEach(([unitId, count]) => {
+      const cost = this.costs[unitId];
+      totals[cost] = (totals[cost] ?? 0) + count;
+    });
+    return totals;
+  }
+
+  getOdds(level: number): number[] {
+    const table = this.config.shopOdds ?? DEFAULT_SHOP_ODDS;
+    return table[Math.min(Math.max(1, level), table.length) - 1];
+  }
+
+  // 按等级概率抽取一个单位并从卡池取出；抽到的档位为空时在仍有单位的档位中按概率重新分配，
+  // 当前等级可出现的档位全部为空时按剩余数量从整个卡池抽取，卡池耗尽时返回 null。
+  // weight 按费用档位 ("1"-"5") 或单位ID返回概率倍率 (经济事件的掉率修正)
+  draw(level: number, weight: (target: string) => number = () => 1): string | null {
+    const totals = this.getRemainingByCost();
+    let odds = this.getOdds(level).map((chance, index) =>
+      (totals[index + 1] ?? 0) > 0 ? chance * Math.max(0, weight(String(index + 1))) : 0
+    );
+    if (odds.every(chance => chance <= 0)) {
+      odds = odds.map((_, index) => totals[index + 1] ?? 0);
+    }
+    const totalOdds = odds.reduce((sum, chance) => sum + chance, 0);
+    if (totalOdds <= 0) return null;
+
+    let roll = this.random.next() * totalOdds;
+    let tier = 0;
+    for (let i = 0; i < odds.length; i++) {
+      if (odds[i] <= 0) continue;
+      tier = i + 1;
+      if ((roll -= odds[i]) < 0) break;
+    }
+
+    // 同档位内按剩余数量加权抽取
+    const candidates = Object.keys(this.remaining).filter(unitId => this.costs[unitId] === tier && this.remaining[unitId] > 0);
+    let weights = candidates.map(unitId => this.remaining[unitId] * Math.max(0, weight(unitId)));
+    if (weights.every(value => value <= 0)) {
+      weights = candidates.map(unitId => this.remaining[unitId]);
+    }
+    let pick = this.random.next() * weights.reduce((sum, value) => sum + value, 0);
+    const index = weights.findIndex(value => (pick -= value) < 0);
+    const unitId = candidates[index >= 0 ? index : candidates.length - 1];
+
+    this.remaining[unitId]--;
+    return unitId;
+  }
+
+  // 放回单位 (刷新时未购买的商店单位，或出售单位时按星级返还)
+  release(unitId: string, copies: number = 1): void {
+    if (this.remaining[unitId] === undefined) return;
+    this.remaining[unitId] += copies;
+  }
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { BattleGrid, GridPosition } from './BattleGrid';
+
+const free = () => false;
+
+describe('BattleGrid.findPath', () => {
+  const grid = new BattleGrid(8, 8);
+
+  it('已在射程内时返回空路径', () => {
+    expect(grid.findPath({ x: 0, y: 0 }, { x: 2, y: 2 }, 2, free)).toEqual([]);
+  });
+
+  it('斜向移动，路径长度为切比雪夫距离减去射程', () => {
+    const path = grid.findPath({ x: 0, y: 0 }, { x: 5, y: 5 }, 1, free);
+    expect(path).toHaveLength(4);
+    expect(grid.distance(path[path.length - 1], { x: 5, y: 5 })).toBe(1);
+  });
+
+  it('每一步只移动到相邻格子', () => {
+    const from = { x: 0, y: 7 };
+    const path = grid.findPath(from, { x: 7, y: 0 }, 1, free);
+    path.reduce((previous, step) => {
+      expect(grid.distance(previous, step)).toBe(1);
+      return step;
+    }, from);
+  });
+
+  it('绕开被占据的格子', () => {
+    // x = 3 一列除 y = 7 外全部被占据
+    const isBlocked = (p: GridPosition) => p.x === 3 && p.y < 7;
+    const path = grid.findPath({ x: 0, y: 0 }, { x: 6, y: 0 }, 1, isBlocked);
+    expect(path.length).toBeGreaterThan(0);
+    expect(path.some(isBlocked)).toBe(false);
+    expect(path).toContainEqual({ x: 3, y: 7 });
+    expect(grid.distance(path[path.length - 1], { x: 6, y: 0 })).toBeLessThanOrEqual(1);
+  });
+
+  it('无法到达时返回空数组', () => {
+    const isBlocked = (p: GridPosition) => p.x === 3;
+    expect(grid.findPath({ x: 0, y: 0 }, { x: 6, y: 0 }, 1, isBlocked)).toEqual([]);
+  });
+
+  it('相同输入得到相同路径', () => {
+    const path = () => grid.findPath({ x: 1, y: 6 }, { x: 6, y: 1 }, 1, free);
+    expect(path()).toEqual(path());
+  });
+});
+
+describe('BattleGrid.getDeploymentSlots', () => {
+  it('双方站位互不重叠且都在棋盘内', () => {
+    const grid = new BattleGrid(8, 8);
+    const alpha = grid.getDeploymentSlots('alpha');
+    const beta = grid.getDeploymentSlots('beta');
+    const keys = [...alpha, ...beta].map(p => `${p.x},${p.y}`);
+    expect(new Set(keys).size).toBe(32);
+    [...alpha, ...beta].forEach(p => expect(grid.isInside(p)).toBe(true));
+  });
+});
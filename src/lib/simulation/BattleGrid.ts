@@ -0,0 +1,99 @@
+// 方格战场: 坐标、距离与寻路
+
+export interface GridPosition {
+  x: number;
+  y: number;
+}
+
+// 八方向移动
+const DIRECTIONS: GridPosition[] = [
+  { x: 1, y: 0 }, { x: -1, y: 0 }, { x: 0, y: 1 }, { x: 0, y: -1 },
+  { x: 1, y: 1 }, { x: 1, y: -1 }, { x: -1, y: 1 }, { x: -1, y: -1 }
+];
+
+// 单位未设置攻击距离与移动速度时的默认值
+export const DEFAULT_MOVE_SPEED = 2;
+const DEFAULT_RANGED_RANGE = 3;
+const RANGED_TYPES = ["Archer", "射手", "弓箭手", "Mage", "法师", "Priest", "牧师"];
+
+export function getDefaultRange(unitType: string): number {
+  return RANGED_TYPES.includes(unitType) ? DEFAULT_RANGED_RANGE : 1;
+}
+
+export class BattleGrid {
+  constructor(readonly width: number, readonly height: number) {}
+
+  isInside(position: GridPosition): boolean {
+    return position.x >= 0 && position.x < this.width && position.y >= 0 && position.y < this.height;
+  }
+
+  // 切比雪夫距离，斜向移动与直线移动代价相同
+  distance(a: GridPosition, b: GridPosition): number {
+    return Math.max(Math.abs(a.x - b.x), Math.abs(a.y - b.y));
+  }
+
+  // 棋盘内的相邻格子
+  getNeighbours(position: GridPosition): GridPosition[] {
+    return DIRECTIONS
+      .map(d => ({ x: position.x + d.x, y: position.y + d.y }))
+      .filter(p => this.isInside(p));
+  }
+
+  /**
+   * 广度优先寻路，返回从起点 (不含) 到第一个距离目标不超过 range 的格子的路径。
+   * 被占据的格子不可通过；无法到达时返回空数组。
+   */
+  findPath(
+    from: GridPosition,
+    to: GridPosition,
+    range: number,
+    isBlocked: (position: GridPosition) => boolean
+  ): GridPosition[] {
+    if (this.distance(from, to) <= range) return [];
+
+    const key = (p: GridPosition) => `${p.x},${p.y}`;
+    const previous = new Map<string, GridPosition | null>([[key(from), null]]);
+    const queue: GridPosition[] = [from];
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+
+      if (this.distance(current, to) <= range) {
+        const path: GridPosition[] = [];
+        let step: GridPosition | null = current;
+        while (step && key(step) !== key(from)) {
+          path.unshift(step);
+          step = previous.get(key(step)) ?? null;
+        }
+        return path;
+      }
+
+      // 优先尝试更接近目标的方向，使路径在等长时保持确定且自然
+      const neighbours = DIRECTIONS
+        .map(d => ({ x: current.x + d.x, y: current.y + d.y }))
+        .filter(p => this.isInside(p) && !previous.has(key(p)) && !isBlocked(p))
+        .sort((a, b) => this.distance(a, to) - this.distance(b, to));
+
+      for (const next of neighbours) {
+        previous.set(key(next), current);
+        queue.push(next);
+      }
+    }
+
+    return [];
+  }
+
+  // 双方默认站位: alpha 在底部，beta 在顶部；先前排后后排，从中间向两侧展开
+  getDeploymentSlots(team: 'alpha' | 'beta'): GridPosition[] {
+    const rows = team === 'alpha'
+      ? [this.height - 2, this.height - 1]
+      : [1, 0];
+    const center = Math.floor((this.width - 1) / 2);
+    const columns = Array.from({ length: this.width }, (_, i) => i)
+      .sort((a, b) => Math.abs(a - center) - Math.abs(b - center) || a - b);
+
+    const slots: GridPosition[] = [];
+    rows.forEach(y => columns.forEach(x => slots.push({ x, y })));
+    return slots;
+  }
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { Unit } from '@/types/battle';
+import { BattleRunner } from './BattleRunner';
+
+const createUnit = (id: string, overrides: Partial<Unit> = {}): Unit => ({
+  id, name: id, type: '战士', level: 1, attack: 30, defense: 10, magicPower: 20, magicResistance: 8, speed: 10,
+  maxHP: 300, currentHP: 300, maxMana: 100, currentMana: 0, critRate: 0.2, critDamage: 1.5, team: 'alpha', skills: [],
+  ...overrides
+});
+
+const ROSTER = [createUnit('w', { speed: 12 }), createUnit('a', { type: '射手', range: 3, attack: 25 })];
+
+describe('BattleRunner', () => {
+  it('相同种子区间的批量结果相同', () => {
+    const options = { alphaTeam: ROSTER, betaTeam: [createUnit('k', { defense: 20 })], count: 20, seedStart: 5 };
+    const first = new BattleRunner().run(options);
+    const second = new BattleRunner().run(options);
+
+    expect(second.wins).toEqual(first.wins);
+    expect(second.units).toEqual(first.units);
+    expect(first.seedRange).toEqual([5, 24]);
+  });
+
+  it('双方使用相同阵容时按队伍分别统计', () => {
+    const result = new BattleRunner().run({ alphaTeam: ROSTER, betaTeam: ROSTER, count: 20 });
+
+    expect(Object.keys(result.units).sort()).toEqual(['alpha:a', 'alpha:w', 'beta:a', 'beta:w']);
+    expect(result.units['alpha:w']).toMatchObject({ unitId: 'w', team: 'alpha' });
+    expect(result.units['beta:w']).toMatchObject({ unitId: 'w', team: 'beta' });
+    expect(result.wins.alpha + result.wins.beta + result.draws).toBe(20);
+
+    const totalDamage = Object.values(result.units).reduce((sum, unit) => sum + unit.totalDamage, 0);
+    const totalTaken = Object.values(result.units).reduce((sum, unit) => sum + unit.totalDamageTaken, 0);
+    expect(totalDamage).toBeGreaterThan(0);
+    expect(totalTaken).toBe(totalDamage);
+  });
+});
@@ -0,0 +1,234 @@
+import { Unit, TerrainType, CombatMode } from '@/types/battle';
+import { BalanceParameters, Bond } from '@/context/GameContext';
+import { SkillSynergy, UnitEcosystem, EquipmentSystem } from '@/types/balance';
+import { BattleSystem, BattleFaction } from './BattleSystem';
+import { UnitController } from './UnitAI';
+import { DamageFormulaId } from './DamageFormula';
+
+// 批量战斗配置
+export interface BattleRunnerOptions {
+  alphaTeam: Unit[];
+  betaTeam: Unit[];
+  terrain?: TerrainType;
+  terrainVariety?: number; // 随机地形格子的比例，默认 0
+  seedStart?: number;     // 种子区间起点，第 i 场使用 seedStart + i
+  count: number;          // 战斗场数
+  maxRounds?: number;
+  enableLogging?: boolean; // 默认关闭，批量模拟时无需战斗日志
+  balanceParameters?: BalanceParameters;
+  bonds?: Bond[];
+  factions?: BattleFaction[];
+  board?: {
+    width: number;
+    height: number;
+  };
+  controllers?: Record<string, UnitController>; // 按单位类型替换AI控制器
+  advancedCombat?: boolean; // 启用元素反应
+  skillSynergy?: SkillSynergy;
+  unitEcosystem?: UnitEcosystem; // 克制与连击系数
+  summonLimit?: number; // 每队同时存活的召唤物上限
+  combatMode?: CombatMode; // 默认回合制
+  damageFormula?: DamageFormulaId;
+  equipment?: EquipmentSystem; // 装备定义，未传入时忽略单位身上的装备
+}
+
+// 单位在所有战斗中的汇总表现
+export interface UnitBatchSummary {
+  unitId: string;         // 传入的单位ID (镜像对战时双方可以相同)
+  name: string;
+  type: string;
+  team: 'alpha' | 'beta';
+  totalDamage: number;
+  totalDamageTaken: number;
+  totalHealing: number;
+  averageDamage: number;
+  averageHealing: number;
+  survivalCount: number;
+  survivalRate: number;
+}
+
+// 批量战斗汇总结果
+export interface BatchBattleResult {
+  battles: number;
+  wins: {
+    alpha: number;
+    beta: number;
+  };
+  draws: number;
+  winRates: {
+    alpha: number;
+    beta: number;
+    draw: number;
+  };
+  averageRounds: number;
+  units: Record<string, UnitBatchSummary>; // 键为 "队伍:单位ID"，双方使用相同阵容时分开统计
+  reactions: Record<string, number>; // 各元素反应的总触发次数
+  summonedUnits: number; // 所有战斗中召唤生成的单位总数 (不计入单位汇总)
+  seedRange: [number, number];
+  elapsedMs: number;
+}
+
+/**
+ * 无界面批量战斗执行器 - 每次 run 创建新的 BattleSystem (避免上一组配置的控制器与参数残留)，
+ * 在其上连续运行大量战斗并汇总结果
+ */
+export class BattleRunner {
+  constructor(private createBattleSystem: () => BattleSystem = () => new BattleSystem()) {}
+
+  run(options: BattleRunnerOptions): BatchBattleResult {
+    const {
+      alphaTeam,
+      betaTeam,
+      terrain = 'plains',
+      terrainVariety = 0,
+      seedStart = 1,
+      count,
+      maxRounds = 20,
+      enableLogging = false,
+      balanceParameters,
+      bonds = [],
+      factions = [],
+      board,
+      controllers = {},
+      advancedCombat = false,
+      skillSynergy,
+      unitEcosystem,
+      summonLimit,
+      combatMode = 'turnBased',
+      damageFormula,
+      equipment
+    } = options;
+
+    const startTime = performance.now();
+    const battleSystem = this.createBattleSystem();
+
+    battleSystem.setLoggingEnabled(enableLogging);
+    battleSystem.setTerrainVariety(terrainVariety);
+    battleSystem.setBonds(bonds);
+    battleSystem.setFactions(factions);
+    if (board) {
+      battleSystem.setBoardSize(board.width, board.height);
+    }
+    if (balanceParameters) {
+      battleSystem.setBalanceParameters(balanceParameters);
+    }
+    battleSystem.setAdvancedCombat(advancedCombat);
+    battleSystem.setSkillSynergy(skillSynergy ?? null);
+    battleSystem.setUnitEcosystem(unitEcosystem ?? null);
+    battleSystem.setEquipmentSystem(equipment ?? null);
+    if (damageFormula) {
+      battleSystem.setDamageFormula(damageFormula);
+    }
+    if (summonLimit !== undefined) {
+      battleSystem.setSummonLimit(summonLimit);
+    }
+    Object.entries(controllers).forEach(([unitType, controller]) => {
+      battleSystem.registerController(unitType, controller);
+    });
+
+    // 战斗中的单位ID按队伍加前缀，双方可以使用相同阵容
+    const alpha = alphaTeam.map(unit => this.toTeamUnit(unit, 'alpha'));
+    const beta = betaTeam.map(unit => this.toTeamUnit(unit, 'beta'));
+    const units = this.createUnitSummaries(alphaTeam, betaTeam);
+    const wins = { alpha: 0, beta: 0 };
+    const reactions: Record<string, number> = {};
+    let draws = 0;
+    let totalRounds = 0;
+    let summonedUnits = 0;
+
+    for (let i = 0; i < count; i++) {
+      battleSystem.setMaxRounds(maxRounds);
+      battleSystem.initializeBattle(alpha, beta, terrain, seedStart + i, { combatMode });
+
+      while (!battleSystem.isCompleted()) {
+        battleSystem.executeTurn();
+      }
+
+      const winner = battleSystem.getWinner();
+      if (winner === 'alpha' || winner === 'beta') {
+        wins[winner]++;
+      } else {
+        draws++;
+      }
+      totalRounds += Math.min(battleSystem.getRound(), maxRounds);
+
+      this.accumulateUnitResults(units, battleSystem);
+      const teams = battleSystem.getTeams();
+      summonedUnits += [...teams.alpha, ...teams.beta].filter(unit => unit.summoned).length;
+      Object.entries(battleSystem.getReactionCounts()).forEach(([reaction, times]) => {
+        reactions[reaction] = (reactions[reaction] ?? 0) + times;
+      });
+    }
+
+    Object.values(units).forEach(summary => {
+      summary.averageDamage = count > 0 ? summary.totalDamage / count : 0;
+      summary.averageHealing = count > 0 ? summary.totalHealing / count : 0;
+      summary.survivalRate = count > 0 ? summary.survivalCount / count : 0;
+    });
+
+    return {
+      battles: count,
+      wins,
+      draws,
+      winRates: {
+        alpha: count > 0 ? wins.alpha / count : 0,
+        beta: count > 0 ? wins.beta / count : 0,
+        draw: count > 0 ? draws / count : 0
+      },
+      averageRounds: count > 0 ? totalRounds / count : 0,
+      units,
+      reactions,
+      summonedUnits,
+      seedRange: [seedStart, seedStart + Math.max(0, count - 1)],
+      elapsedMs: performance.now() - startTime
+    };
+  }
+
+  private toTeamUnit(unit: Unit, team: 'alpha' | 'beta'): Unit {
+    return { ...unit, id: `${team}:${unit.id}`, team };
+  }
+
+  private createUnitSummaries(alphaTeam: Unit[], betaTeam: Unit[]): Record<string, UnitBatchSummary> {
+    const summaries: Record<string, UnitBatchSummary> = {};
+    const addSummary = (unit: Unit, team: 'alpha' | 'beta') => {
+      summaries[`${team}:${unit.id}`] = {
+        unitId: unit.id,
+        name: unit.name,
+        type: unit.type,
+        team,
+        totalDamage: 0,
+        totalDamageTaken: 0,
+        totalHealing: 0,
+        averageDamage: 0,
+        averageHealing: 0,
+        survivalCount: 0,
+        survivalRate: 0
+      };
+    };
+
+    alphaTeam.forEach(unit => addSummary(unit, 'alpha'));
+    betaTeam.forEach(unit => addSummary(unit, 'beta'));
+    return summaries;
+  }
+
+  private accumulateUnitResults(units: Record<string, UnitBatchSummary>, battleSystem: BattleSystem): void {
+    const statistics = battleSystem.getStatistics();
+    const teams = battleSystem.getTeams();
+
+    [...teams.alpha, ...teams.beta].forEach(unit => {
+      const summary = units[unit.id];
+      if (!summary) return;
+
+      const unitStats = statistics[unit.id];
+      if (unitStats) {
+        summary.totalDamage += unitStats.damageDealt;
+        summary.totalDamageTaken += unitStats.damageTaken;
+        summary.totalHealing += unitStats.healingDone;
+      }
+
+      if (unit.currentHP > 0) {
+        summary.survivalCount++;
+      }
+    });
+  }
+}
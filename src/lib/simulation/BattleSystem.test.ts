@@ -0,0 +1,612 @@
+import { describe, it, expect } from 'vitest';
+import { Unit, BattleLogEntry, Skill } from '@/types/battle';
+import { EquipmentSystem } from '@/types/balance';
+import { BattleSystem } from './BattleSystem';
+import { DamageFormulaId } from './DamageFormula';
+
+const createUnit = (id: string, team: Unit['team'], overrides: Partial<Unit> = {}): Unit => ({
+  id, name: id, type: '战士', level: 1, attack: 30, defense: 10, magicPower: 20, magicResistance: 8, speed: 10,
+  maxHP: 300, currentHP: 300, maxMana: 100, currentMana: 0, critRate: 0.2, critDamage: 1.5, team, skills: [],
+  ...overrides
+});
+
+// 只进行防御的单位，用于隔离被测机制造成的属性与生命变化
+const DEFENDER: Partial<Unit> = { behaviorTree: { type: 'action', action: 'defend' } };
+
+// 初始化战斗并返回战斗中的单位 (非快照)，便于直接结算技能效果
+const startBattle = (alpha: Unit[], beta: Unit[], seed = 1) => {
+  const battle = new BattleSystem();
+  battle.initializeBattle(alpha, beta, 'plains', seed);
+  const teams = battle.getTeams();
+  return { battle, alpha: teams.alpha, beta: teams.beta };
+};
+
+const findLog = (battle: BattleSystem, predicate: (entry: BattleLogEntry) => boolean) =>
+  battle.getBattleLog().filter(predicate).reverse();
+
+const runBattle = (battle: BattleSystem, alpha: Unit[], beta: Unit[], seed: number) => {
+  battle.initializeBattle(alpha, beta, 'plains', seed);
+  while (battle.getState().status !== 'completed') {
+    battle.executeTurn();
+  }
+  return battle.getState();
+};
+
+describe('BattleSystem 可复现性', () => {
+  const alpha = [createUnit('a1', 'alpha', { speed: 12 }), createUnit('a2', 'alpha', { type: '射手', range: 3 })];
+  const beta = [createUnit('b1', 'beta', { speed: 11 }), createUnit('b2', 'beta', { type: '法师' })];
+
+  it('相同种子与队伍产生完全相同的战斗状态与日志', () => {
+    const first = runBattle(new BattleSystem(), alpha, beta, 42);
+    const second = runBattle(new BattleSystem(), alpha, beta, 42);
+
+    expect(first.log.length).toBeGreaterThan(0);
+    expect(second).toEqual(first);
+  });
+
+  it('日志时间戳按回合折算，战斗ID由种子生成', () => {
+    const state = runBattle(new BattleSystem(), alpha, beta, 7);
+
+    expect(state.id).toBe('battle-7');
+    state.log.forEach(entry => expect(entry.timestamp).toBe(entry.round * 2000));
+  });
+});
+
+describe('BattleSystem 防御姿态', () => {
+  it('最后行动的单位防御后，下一回合的攻击仍受防御加成', () => {
+    const battle = new BattleSystem();
+    const defender = createUnit('d1', 'alpha', { speed: 1, behaviorTree: { type: 'action', action: 'defend' } });
+    const attacker = createUnit('b1', 'beta', { speed: 20, range: 10, critRate: 0 });
+    battle.initializeBattle([defender], [attacker], 'plains', 1);
+
+    battle.executeTurn();
+    const [unit] = battle.getState().teams.alpha;
+    expect(unit.status).toBe('defending');
+    expect(unit.defense).toBe(15);
+
+    battle.executeTurn();
+    // 战斗日志按时间倒序
+    const attacks = battle.getBattleLog().filter(entry => entry.action === 'attack' && entry.actorId === 'b1').reverse();
+    expect(attacks.map(entry => entry.round)).toEqual([1, 2]);
+    expect(attacks[1].value).toBeLessThan(attacks[0].value!);
+  });
+});
+
+describe('BattleSystem 单位ID', () => {
+  it('双方单位ID重复时拒绝开始战斗', () => {
+    const battle = new BattleSystem();
+    expect(() => battle.initializeBattle([createUnit('u1', 'alpha')], [createUnit('u1', 'beta')], 'plains', 1))
+      .toThrow('单位ID重复: u1');
+  });
+});
+
+describe('BattleSystem 地形加成', () => {
+  it('中文单位类型按英文别名获得地形加成', () => {
+    const battle = new BattleSystem();
+    const archer = createUnit('a1', 'alpha', { type: '射手', attack: 1000 });
+    const warrior = createUnit('a2', 'alpha', { attack: 1000 });
+    const target = createUnit('b1', 'beta', { defense: 0 });
+    battle.initializeBattle([archer, warrior], [target], 'forest', 1);
+
+    const [alphaArcher, alphaWarrior] = battle.getState().teams.alpha;
+    const [defender] = battle.getState().teams.beta;
+    const ratio = battle.calculateDamage(alphaArcher, defender) / battle.calculateDamage(alphaWarrior, defender);
+    expect(ratio).toBeCloseTo(1.2, 2);
+  });
+});
+
+describe('BattleSystem 反伤', () => {
+  it('反弹伤害记录为 reflect 行动，不计为防守方的攻击', () => {
+    const battle = new BattleSystem();
+    const defender = createUnit('d1', 'alpha', { speed: 1, thorns: 0.5, behaviorTree: { type: 'action', action: 'defend' } });
+    const attacker = createUnit('b1', 'beta', { speed: 20, range: 10, critRate: 0 });
+    battle.initializeBattle([defender], [attacker], 'plains', 1);
+
+    battle.executeTurn();
+
+    const log = battle.getBattleLog();
+    const attack = log.find(entry => entry.action === 'attack' && entry.actorId === 'b1')!;
+    const reflect = log.find(entry => entry.action === 'reflect')!;
+    expect(reflect).toMatchObject({ actorId: 'd1', targetId: 'b1', value: Math.floor(attack.value! * 0.5) });
+    expect(log.some(entry => entry.action === 'attack' && entry.actorId === 'd1')).toBe(false);
+    expect(battle.getState().teams.beta[0].currentHP).toBe(300 - reflect.value!);
+  });
+});
+
+describe('BattleSystem 增益、减益与持续伤害', () => {
+  it('增益按基础属性比例提升，持续回合结束后移除并记录', () => {
+    const { battle, alpha } = startBattle([createUnit('a1', 'alpha', DEFENDER)], [createUnit('b1', 'beta', DEFENDER)]);
+    const [caster] = alpha;
+
+    battle.applySkillEffects([{ type: 'buff', stat: 'attack', value: 0.5, duration: 2 }], caster, caster);
+    expect(caster.attack).toBe(45);
+
+    battle.executeTurn();
+    expect(caster.attack).toBe(45);
+    battle.executeTurn();
+    expect(caster.attack).toBe(30);
+    expect(findLog(battle, entry => entry.action === 'expire' && entry.actorId === 'a1').map(entry => entry.message))
+      .toContain('a1 的攻击力增益效果结束');
+  });
+
+  it('同一来源的减益刷新持续时间而不叠加，不同来源的减益叠加', () => {
+    const { battle, alpha, beta } = startBattle(
+      [createUnit('a1', 'alpha', DEFENDER), createUnit('a2', 'alpha', DEFENDER)],
+      [createUnit('b1', 'beta', { ...DEFENDER, defense: 40 })]
+    );
+    const [first, second] = alpha;
+    const [target] = beta;
+    const debuff = [{ type: 'debuff' as const, stat: 'defense' as const, value: 0.25 }];
+
+    battle.applySkillEffects(debuff, first, target);
+    battle.applySkillEffects(debuff, first, target);
+    expect(target.defense).toBe(30);
+
+    battle.applySkillEffects(debuff, second, target);
+    expect(target.defense).toBe(20);
+    expect(target.buffs?.filter(buff => buff.type === 'negative')).toHaveLength(2);
+  });
+
+  it('持续伤害每回合按施法者法术强度结算，到期后停止', () => {
+    const { battle, alpha, beta } = startBattle(
+      [createUnit('a1', 'alpha', { ...DEFENDER, magicPower: 40 })],
+      [createUnit('b1', 'beta', DEFENDER)]
+    );
+    const [caster] = alpha;
+    const [target] = beta;
+
+    battle.applySkillEffects([{ type: 'dot', value: 0.25, duration: 2 }], caster, target, 'poison');
+    for (let i = 0; i < 3; i++) battle.executeTurn();
+
+    const ticks = findLog(battle, entry => entry.message === 'b1 受到持续伤害效果 10 点伤害');
+    expect(ticks.map(entry => [entry.round, entry.actorId, entry.value])).toEqual([[1, 'a1', -10], [2, 'a1', -10]]);
+    expect(target.currentHP).toBe(280);
+    expect(battle.getStatistics().a1.damageDealt).toBe(20);
+  });
+});
+
+describe('BattleSystem 技能范围与目标', () => {
+  const createSkill = (overrides: Partial<Skill>): Skill => ({
+    id: 'blast', name: '冲击', description: '', damage: 60, manaCost: 0, cooldown: 0, currentCooldown: 0, ...overrides
+  });
+
+  // 施法者位于底部，敌方三个单位横排在 y = 0，第四个在 y = 2
+  const setup = (skill: Skill) => {
+    const context = startBattle(
+      [createUnit('a1', 'alpha', { skills: [skill] })],
+      [createUnit('b1', 'beta'), createUnit('b2', 'beta'), createUnit('b3', 'beta'), createUnit('b4', 'beta')]
+    );
+    const positions = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 4, y: 0 }, { x: 1, y: 2 }];
+    context.beta.forEach((unit, index) => { unit.position = positions[index]; });
+    return context;
+  };
+
+  const skillHits = (battle: BattleSystem) =>
+    findLog(battle, entry => entry.action === 'skill' && entry.skillId === 'blast').map(entry => [entry.targetId, entry.value]);
+
+  it('single 只命中主目标', () => {
+    const { battle, alpha, beta } = setup(createSkill({}));
+    battle.performSkill(alpha[0], beta[0], 'blast');
+    expect(skillHits(battle).map(([id]) => id)).toEqual(['b1']);
+  });
+
+  it('all 命中目标方全体', () => {
+    const { battle, alpha, beta } = setup(createSkill({ shape: 'all' }));
+    battle.performSkill(alpha[0], beta[0], 'blast');
+    expect(skillHits(battle).map(([id]) => id)).toEqual(['b1', 'b2', 'b3', 'b4']);
+  });
+
+  it('row 与 column 按主目标所在行/列筛选', () => {
+    const row = setup(createSkill({ shape: 'row' }));
+    row.battle.performSkill(row.alpha[0], row.beta[1], 'blast');
+    expect(skillHits(row.battle).map(([id]) => id)).toEqual(['b1', 'b2', 'b3']);
+
+    const column = setup(createSkill({ shape: 'column' }));
+    column.battle.performSkill(column.alpha[0], column.beta[1], 'blast');
+    expect(skillHits(column.battle).map(([id]) => id)).toEqual(['b2', 'b4']);
+  });
+
+  it('radius 命中主目标周围的单位', () => {
+    const { battle, alpha, beta } = setup(createSkill({ shape: 'radius', radius: 1 }));
+    battle.performSkill(alpha[0], beta[0], 'blast');
+    expect(skillHits(battle).map(([id]) => id)).toEqual(['b1', 'b2']);
+  });
+
+  it('chain 依次弹射到最近的单位，伤害逐次衰减', () => {
+    const { battle, alpha, beta } = setup(createSkill({ shape: 'chain', chainCount: 2, chainFalloff: 0.5 }));
+    battle.performSkill(alpha[0], beta[0], 'blast');
+
+    const hits = skillHits(battle);
+    expect(hits.map(([id]) => id)).toEqual(['b1', 'b2', 'b4']);
+    const [first, second, third] = hits.map(([, value]) => value as number);
+    expect(second).toBe(Math.floor(first * 0.5));
+    expect(third).toBe(Math.floor(first * 0.25));
+  });
+
+  it('ally 技能治疗友方目标，self 技能只作用于施法者', () => {
+    const { battle, alpha } = startBattle(
+      [
+        createUnit('a1', 'alpha', { magicPower: 20, skills: [createSkill({ targetType: 'ally', damage: 30 })] }),
+        createUnit('a2', 'alpha')
+      ],
+      [createUnit('b1', 'beta')]
+    );
+    const [healer, ally] = alpha;
+    ally.currentHP = 100;
+
+    battle.performSkill(healer, ally, 'blast');
+    expect(ally.currentHP).toBe(150);
+    expect(battle.getStatistics().a1.healingDone).toBe(50);
+
+    const self = startBattle(
+      [createUnit('a1', 'alpha', { skills: [createSkill({ targetType: 'self', damage: 0, effects: [{ type: 'shield', value: 0.1 }] })] })],
+      [createUnit('b1', 'beta')]
+    );
+    self.battle.performSkill(self.alpha[0], self.beta[0], 'blast');
+    expect(self.alpha[0].shield).toBe(30);
+    expect(self.beta[0].currentHP).toBe(300);
+  });
+});
+
+describe('BattleSystem 护盾、嘲讽与吸血', () => {
+  it('护盾先吸收伤害，破碎后剩余伤害扣除生命值', () => {
+    const { battle, alpha, beta } = startBattle(
+      [createUnit('a1', 'alpha'), createUnit('a2', 'alpha')],
+      [createUnit('b1', 'beta', { attack: 100, critRate: 0 })]
+    );
+    const [protector, target] = alpha;
+    battle.applySkillEffects([{ type: 'shield', value: 0.1 }], protector, target);
+    expect(target.shield).toBe(30);
+
+    battle.performAttack(beta[0], target);
+
+    const [attack] = findLog(battle, entry => entry.action === 'attack');
+    expect(attack.value).toBeGreaterThan(30);
+    expect(target.shield).toBe(0);
+    expect(target.currentHP).toBe(300 - (attack.value! - 30));
+    expect(findLog(battle, entry => entry.targetId === 'a2' && entry.value === -30).map(entry => entry.message))
+      .toEqual(['a2 的护盾吸收了 30 点伤害后破碎']);
+    expect(battle.getStatistics().b1.damageDealt).toBe(attack.value! - 30);
+  });
+
+  it('被嘲讽的单位只能攻击嘲讽者，嘲讽到期后恢复', () => {
+    const { battle, alpha, beta } = startBattle(
+      [createUnit('a1', 'alpha', { ...DEFENDER, currentHP: 50 }), createUnit('a2', 'alpha', DEFENDER)],
+      [createUnit('b1', 'beta', { speed: 20, range: 10, critRate: 0 })]
+    );
+    battle.applySkillEffects([{ type: 'taunt', value: 0, duration: 1 }], alpha[1], beta[0]);
+
+    battle.executeTurn();
+    battle.executeTurn();
+
+    const attacks = findLog(battle, entry => entry.action === 'attack' && entry.actorId === 'b1');
+    expect(attacks.map(entry => [entry.round, entry.targetId])).toEqual([[1, 'a2'], [2, 'a1']]);
+    expect(findLog(battle, entry => entry.action === 'expire' && entry.actorId === 'b1')).toHaveLength(1);
+  });
+
+  it('吸血按造成伤害的比例恢复生命值', () => {
+    const { battle, alpha, beta } = startBattle(
+      [createUnit('a1', 'alpha', { critRate: 0, lifesteal: 0.5, currentHP: 100 })],
+      [createUnit('b1', 'beta')]
+    );
+
+    battle.performAttack(alpha[0], beta[0]);
+
+    const [attack] = findLog(battle, entry => entry.action === 'attack');
+    const healed = Math.floor(attack.value! * 0.5);
+    expect(alpha[0].currentHP).toBe(100 + healed);
+    expect(findLog(battle, entry => entry.action === 'heal').map(entry => entry.message)).toEqual([`a1 吸血恢复 ${healed} 点生命值`]);
+  });
+});
+
+describe('BattleSystem 召唤', () => {
+  const WOLF = { name: '狼', type: '野兽', statScale: 0.5 };
+
+  it('召唤物按召唤者基础属性缩放，生成在空闲格子上', () => {
+    const { battle, alpha } = startBattle([createUnit('a1', 'alpha', { attack: 40 })], [createUnit('b1', 'beta')]);
+    const [summoner] = alpha;
+
+    battle.applySkillEffects([{ type: 'summon', value: 0, summon: { ...WOLF, count: 2 } }], summoner, summoner);
+
+    const summons = alpha.filter(unit => unit.summoned);
+    expect(summons.map(unit => [unit.id, unit.attack, unit.maxHP, unit.summonerId])).toEqual([
+      ['a1-summon-1', 20, 150, 'a1'],
+      ['a1-summon-2', 20, 150, 'a1']
+    ]);
+    const tiles = alpha.map(unit => `${unit.position!.x},${unit.position!.y}`);
+    expect(new Set(tiles).size).toBe(3);
+    expect(findLog(battle, entry => entry.action === 'summon').map(entry => entry.message))
+      .toEqual(['a1 召唤了 狼', 'a1 召唤了 狼']);
+  });
+
+  it('存活召唤物达到上限后不再召唤', () => {
+    const { battle, alpha } = startBattle([createUnit('a1', 'alpha')], [createUnit('b1', 'beta')]);
+    battle.setSummonLimit(1);
+
+    battle.applySkillEffects([{ type: 'summon', value: 0, summon: { ...WOLF, count: 3 } }], alpha[0], alpha[0]);
+
+    expect(alpha.filter(unit => unit.summoned)).toHaveLength(1);
+    expect(findLog(battle, entry => entry.action === 'summon').map(entry => entry.message))
+      .toEqual(['a1 召唤了 狼', 'a1 的召唤物数量已达上限']);
+  });
+
+  it('单位阵亡时生成死亡召唤物，战斗继续进行', () => {
+    const { battle, beta } = startBattle(
+      [createUnit('a1', 'alpha', { speed: 20, range: 10, attack: 100, critRate: 0 })],
+      [createUnit('b1', 'beta', { ...DEFENDER, currentHP: 1, onDeathSummon: { ...WOLF, count: 2 } })]
+    );
+
+    battle.executeTurn();
+
+    expect(beta.filter(unit => unit.summoned && unit.currentHP > 0).map(unit => unit.summonerId)).toEqual(['b1', 'b1']);
+    expect(battle.isCompleted()).toBe(false);
+  });
+});
+
+describe('BattleSystem 触发器', () => {
+  const passives = (battle: BattleSystem) =>
+    findLog(battle, entry => entry.action === 'passive').map(entry => [entry.round, entry.message]);
+
+  it('afterDamage 触发器对伤害来源结算效果', () => {
+    const { battle, alpha, beta } = startBattle(
+      [createUnit('a1', 'alpha', { critRate: 0 })],
+      [createUnit('b1', 'beta', {
+        triggers: [{ id: 'weaken', name: '虚弱反击', event: 'afterDamage', effects: [{ type: 'debuff', stat: 'attack', value: 0.5 }] }]
+      })]
+    );
+
+    battle.performAttack(alpha[0], beta[0]);
+
+    expect(alpha[0].attack).toBe(15);
+    expect(passives(battle)).toEqual([[0, 'b1 触发 虚弱反击']]);
+  });
+
+  it('hpBelowThreshold 只在生命比例跌破阈值时触发一次', () => {
+    const { battle, alpha, beta } = startBattle(
+      [createUnit('a1', 'alpha', { critRate: 0, attack: 60 })],
+      [createUnit('b1', 'beta', {
+        currentHP: 120,
+        triggers: [{ id: 'guard', name: '濒死护盾', event: 'hpBelowThreshold', threshold: 0.3, effects: [{ type: 'shield', value: 0.1 }] }]
+      })]
+    );
+
+    battle.performAttack(alpha[0], beta[0]);
+    battle.performAttack(alpha[0], beta[0]);
+    battle.performAttack(alpha[0], beta[0]);
+
+    expect(passives(battle)).toEqual([[0, 'b1 触发 濒死护盾']]);
+    expect(battle.getTriggerCounts()).toEqual({ 'b1:guard': 1 });
+  });
+
+  it('maxTriggers 限制每场战斗的触发次数', () => {
+    const { battle } = startBattle(
+      [createUnit('a1', 'alpha', {
+        ...DEFENDER,
+        triggers: [{ id: 'rally', name: '集结', event: 'roundStart', maxTriggers: 2, effects: [{ type: 'buff', stat: 'speed', value: 0.1 }] }]
+      })],
+      [createUnit('b1', 'beta', DEFENDER)]
+    );
+
+    for (let i = 0; i < 3; i++) battle.executeTurn();
+
+    expect(passives(battle)).toEqual([[1, 'a1 触发 集结'], [2, 'a1 触发 集结']]);
+  });
+
+  it('外部监听者收到击杀与阵亡事件', () => {
+    const { battle, alpha, beta } = startBattle(
+      [createUnit('a1', 'alpha', { critRate: 0 })],
+      [createUnit('b1', 'beta', { currentHP: 1 })]
+    );
+    const events: string[] = [];
+    battle.onCombatEvent(event => events.push(`${event.type}:${event.unit.id}`));
+
+    battle.performAttack(alpha[0], beta[0]);
+
+    expect(events).toEqual(['beforeAttack:a1', 'afterDamage:b1', 'onDeath:b1', 'onKill:a1']);
+  });
+
+  it('单位类型触发器决定增益行动的效果', () => {
+    const { battle, alpha } = startBattle(
+      [createUnit('a1', 'alpha', { type: '商人', currentMana: 100 }), createUnit('a2', 'alpha')],
+      [createUnit('b1', 'beta')]
+    );
+
+    battle.performBuff(alpha[0], alpha[1]);
+
+    expect(alpha[1].attack).toBe(36);
+    expect(alpha[1].speed).toBe(10);
+    expect(passives(battle)).toEqual([[0, 'a1 触发 鼓舞']]);
+  });
+});
+
+describe('BattleSystem 连续时间模式', () => {
+  const startRealtime = (alpha: Unit[], beta: Unit[]) => {
+    const battle = new BattleSystem();
+    battle.initializeBattle(alpha, beta, 'plains', 1, { combatMode: 'realtime' });
+    const teams = battle.getTeams();
+    return { battle, alpha: teams.alpha, beta: teams.beta };
+  };
+
+  it('单位按攻速行动，日志记录战斗时间', () => {
+    const { battle } = startRealtime(
+      [createUnit('a1', 'alpha', { attackSpeed: 1, range: 10, critRate: 0 }), createUnit('a2', 'alpha', { attackSpeed: 2, range: 10, critRate: 0 })],
+      [createUnit('b1', 'beta', { ...DEFENDER, maxHP: 5000, currentHP: 5000 })]
+    );
+
+    battle.executeTurn();
+
+    const attacks = (actorId: string) => findLog(battle, entry => entry.action === 'attack' && entry.actorId === actorId);
+    expect(attacks('a1').map(entry => entry.time)).toEqual([0.1, 1.1]);
+    expect(attacks('a2').map(entry => entry.time)).toEqual([0.1, 0.6, 1.1, 1.6]);
+    attacks('a2').forEach(entry => expect(entry.timestamp).toBe(Math.round(entry.time! * 1000)));
+    expect(battle.getState().elapsedTime).toBe(2);
+  });
+
+  it('攻击与受到伤害时获得法力，不按回合恢复', () => {
+    const { battle, alpha, beta } = startRealtime(
+      [createUnit('a1', 'alpha', { attackSpeed: 0.5, range: 10, critRate: 0, attack: 200 })],
+      [createUnit('b1', 'beta', { ...DEFENDER, attackSpeed: 0.2, maxHP: 5000, currentHP: 5000 })]
+    );
+
+    battle.executeTurn();
+
+    const [attack] = findLog(battle, entry => entry.action === 'attack');
+    expect(alpha[0].currentMana).toBe(10);
+    expect(beta[0].currentMana).toBe(Math.min(15, Math.floor(attack.value! * 0.1)));
+  });
+
+  it('满法力时开始施法，施法时间结束后释放技能并清空法力', () => {
+    const skill: Skill = { id: 'bolt', name: '雷击', description: '', damage: 50, manaCost: 100, cooldown: 0, currentCooldown: 0, castTime: 0.5 };
+    const { battle, alpha } = startRealtime(
+      [createUnit('a1', 'alpha', { attackSpeed: 1, range: 10, currentMana: 100, skills: [skill] })],
+      [createUnit('b1', 'beta', { ...DEFENDER, maxHP: 5000, currentHP: 5000 })]
+    );
+
+    battle.executeTurn();
+
+    const casts = findLog(battle, entry => entry.skillId === 'bolt').map(entry => [entry.time, entry.message]);
+    expect(casts[0]).toEqual([0.1, 'a1 开始施放 雷击']);
+    expect(casts[1][0]).toBe(0.6);
+    expect(casts[1][1]).toMatch(/^a1 使用技能 雷击 对 b1 造成 \d+ 点伤害$/);
+    // 施放后法力清零，1.6 秒的普攻再获得 10 点
+    expect(alpha[0].currentMana).toBe(10);
+  });
+});
+
+describe('BattleSystem 伤害公式', () => {
+  const BALANCE = {
+    physicalDefense: 0.025, magicResistance: 0.02, criticalRate: 0.15, healingEfficiency: 1, goldScaling: 1, interestRate: 0.1
+  };
+
+  const damageWith = (formula: DamageFormulaId, physicalDefense = BALANCE.physicalDefense) => {
+    const { battle, alpha, beta } = startBattle([createUnit('a1', 'alpha', { attack: 100 })], [createUnit('b1', 'beta', { defense: 20 })]);
+    battle.setBalanceParameters({ ...BALANCE, physicalDefense });
+    battle.setDamageFormula(formula);
+    return battle.calculateDamage(alpha[0], beta[0]);
+  };
+
+  it('按所选公式与防御系数计算物理伤害', () => {
+    // 防御 20: 百分比减伤 50%；收益递减 20 / (20 + 40)；平减抵挡 20 × 0.025 / 0.035 - 10 点
+    expect(damageWith('percentage')).toBe(50);
+    expect(damageWith('diminishing')).toBe(66);
+    expect(damageWith('flat')).toBe(95);
+    expect(damageWith('percentage', 0.01)).toBe(80);
+  });
+
+  it('技能伤害按魔抗系数折算', () => {
+    const skill: Skill = { id: 'bolt', name: '雷击', description: '', damage: 80, manaCost: 0, cooldown: 0, currentCooldown: 0 };
+    const { battle, alpha, beta } = startBattle(
+      [createUnit('a1', 'alpha', { magicPower: 20 })],
+      [createUnit('b1', 'beta', { magicResistance: 25 })]
+    );
+    battle.setBalanceParameters(BALANCE);
+
+    expect(battle.calculateSkillDamage(alpha[0], beta[0], skill)).toBe(50);
+  });
+
+  it('治疗量受治疗效率影响', () => {
+    const { battle, alpha } = startBattle(
+      [createUnit('a1', 'alpha', { magicPower: 50, currentMana: 100 }), createUnit('a2', 'alpha', { currentHP: 100 })],
+      [createUnit('b1', 'beta')]
+    );
+    battle.setBalanceParameters({ ...BALANCE, healingEfficiency: 0.5 });
+
+    battle.performHeal(alpha[0], alpha[1]);
+
+    expect(alpha[1].currentHP).toBe(130);
+    expect(battle.getStatistics().a1.healingDone).toBe(30);
+  });
+});
+
+describe('BattleSystem 星级', () => {
+  it('进入战斗时按星级放大生命、攻击与法术强度，不修改单位数据', () => {
+    const template = createUnit('a1', 'alpha', { stars: 2 });
+    const { alpha } = startBattle([template], [createUnit('b1', 'beta')]);
+
+    expect(alpha[0]).toMatchObject({ stars: 2, maxHP: 540, currentHP: 540, attack: 54, magicPower: 36, defense: 10 });
+    expect(template.attack).toBe(30);
+  });
+
+  it('自定义倍率与技能升级按星级依次叠加', () => {
+    const skill: Skill = { id: 'bolt', name: '雷击', description: '', damage: 50, manaCost: 40, cooldown: 2, currentCooldown: 0 };
+    const template = createUnit('a1', 'alpha', {
+      stars: 3,
+      skills: [skill],
+      starUpgrades: {
+        2: { skillUpgrades: { bolt: { damage: 80 } } },
+        3: { statMultiplier: 2, skillUpgrades: { bolt: { cooldown: 1 } } }
+      }
+    });
+    const { alpha } = startBattle([template], [createUnit('b1', 'beta')]);
+
+    expect(alpha[0]).toMatchObject({ stars: 3, maxHP: 600, attack: 60 });
+    expect(alpha[0].skills![0]).toMatchObject({ damage: 80, cooldown: 1, manaCost: 40 });
+    expect(template.skills![0].damage).toBe(50);
+  });
+});
+
+describe('装备', () => {
+  const equipment: EquipmentSystem = {
+    items: {
+      blade: { name: '利刃', rarity: 'common', statModifiers: { attack: 0.25 } },
+      plate: { name: '板甲', rarity: 'common', statModifiers: { defense: 0.5 } },
+      crown: { name: '王冠', rarity: 'rare', statModifiers: { maxHP: 0.5 } },
+      spikes: { name: '尖刺', rarity: 'uncommon', statModifiers: { thorns: 0.2 } }
+    },
+    setCombinations: {
+      猎手套装: { requiredItems: ['blade', 'plate'], bonusEffect: { description: '', statModifiers: { attack: 0.5, shield: 0.1 } } },
+      独件套装: { requiredItems: ['crown'], bonusEffect: { description: '', statModifiers: { attack: 1 } } }
+    },
+    equipmentAffinities: { 战士: { blade: 2 } }
+  };
+
+  const equipBattle = (alpha: Unit[], withEquipment = true) => {
+    const battle = new BattleSystem();
+    if (withEquipment) battle.setEquipmentSystem(equipment);
+    battle.initializeBattle(alpha, [createUnit('b1', 'beta', DEFENDER)], 'plains', 1);
+    return { battle, alpha: battle.getTeams().alpha };
+  };
+
+  it('单件装备的属性修正乘以单位类型的适配系数，未定义的装备被忽略', () => {
+    const { alpha } = equipBattle([
+      createUnit('a1', 'alpha', { attack: 20, items: ['blade', 'ghost'] }),
+      createUnit('a2', 'alpha', { type: '射手', attack: 20, items: ['blade', 'spikes'] })
+    ]);
+
+    expect(alpha[0].attack).toBe(30);
+    expect(alpha[1].attack).toBe(25);
+    expect(alpha[1].thorns).toBe(0.2);
+  });
+
+  it('套装部件分散在队友身上时激活，加成作用于各持有者并记录日志', () => {
+    const { battle, alpha } = equipBattle([
+      createUnit('a1', 'alpha', { attack: 20, items: ['blade'] }),
+      createUnit('a2', 'alpha', { type: '射手', attack: 20, items: ['plate'] }),
+      createUnit('a3', 'alpha', { attack: 20 })
+    ]);
+
+    expect(battle.getActiveItemSets()).toEqual({
+      alpha: [{ name: '猎手套装', requiredItems: ['blade', 'plate'], holders: ['a1', 'a2'], statModifiers: { attack: 0.5, shield: 0.1 } }],
+      beta: []
+    });
+    expect(alpha[0]).toMatchObject({ attack: 50, shield: 60 });
+    expect(alpha[1]).toMatchObject({ attack: 30, defense: 15, shield: 30 });
+    expect(alpha[2].attack).toBe(20);
+    expect(findLog(battle, entry => entry.action === 'passive').map(entry => [entry.actorId, entry.value, entry.message]))
+      .toEqual([['a1', 2, 'A队 激活套装 猎手套装 (2件)']]);
+  });
+
+  it('不足两件的套装不会激活', () => {
+    const { battle, alpha } = equipBattle([createUnit('a1', 'alpha', { attack: 20, items: ['crown'] })]);
+
+    expect(battle.getActiveItemSets().alpha).toEqual([]);
+    expect(alpha[0]).toMatchObject({ attack: 20, maxHP: 450, currentHP: 450 });
+  });
+
+  it('未设置装备系统时忽略单位装备', () => {
+    const { battle, alpha } = equipBattle([createUnit('a1', 'alpha', { attack: 20, items: ['blade', 'plate'] })], false);
+
+    expect(alpha[0]).toMatchObject({ attack: 20, defense: 10 });
+    expect(battle.getActiveItemSets().alpha).toEqual([]);
+  });
+});
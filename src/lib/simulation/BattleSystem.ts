@@ -1,9 +1,169 @@
-import { Unit, BattleState, BattleLogEntry, ActionType, SkillEffect, TerrainType, Skill } from '@/types/battle';
+import { Unit, BattleState, BattleLogEntry, ActionType, SkillEffect, TerrainType, Skill, StatusEffect, Buff, SummonTemplate, CombatEventType, TriggerDefinition, CombatMode } from '@/types/battle';
+import { BuffStackManager } from './BuffSystem';
+import { BattleGrid, GridPosition, DEFAULT_MOVE_SPEED, getDefaultRange } from './BattleGrid';
+import { UnitAI, UnitController, BattleView, AIDecision, HEAL_MANA_COST, BUFF_MANA_COST } from './UnitAI';
+import { BehaviorTreeController, validateBehaviorTree } from './BehaviorTree';
+import { TerrainManager, TerrainEffect, calculateTerrainImpact } from './TerrainSystem';
+import { createStarredUnit } from './StarSystem';
+import { ActiveItemSet, resolveEquipmentBonuses } from './ItemSystem';
+import { DamageFormula, DamageFormulaId, getDamageFormula } from './DamageFormula';
+import { TriggerRegistry, CombatEvent, CombatEventListener, DEFAULT_HP_THRESHOLD, DEFAULT_UNIT_TYPE_TRIGGERS, parseMechanicTrigger } from './TriggerSystem';
+import { RandomSource, RandomSourceFactory, SeededRandom, generateSeed } from '@/lib/utils/SeededRandom';
+import { UNIT_TYPE_ALIASES } from '@/lib/economy/PlayerArchetypes';
+import { BalanceParameters, Bond, Faction } from '@/context/GameContext';
+import { Faction as TieredFaction, SkillSynergy, UnitEcosystem, EquipmentSystem } from '@/types/balance';
+
+// 默认平衡参数
+const DEFAULT_BALANCE_PARAMETERS: BalanceParameters = {
+  physicalDefense: 0.035,
+  magicResistance: 0.028,
+  criticalRate: 0.15,
+  healingEfficiency: 1.0,
+  goldScaling: 1.2,
+  interestRate: 0.1
+};
+
+// 状态默认持续时间；防御姿态持续到下一回合结束，行动较晚的单位也能抵挡下一回合的攻击
+const DEFEND_DURATION_ROUNDS = 2;
+const DEFAULT_STUN_ACTIONS = 1;
+const DEFAULT_BUFF_DURATION_ROUNDS = 3;
+const DEFAULT_TAUNT_ROUNDS = 2;
+
+const DEFEND_BUFF_NAME = '防御姿态';
+
+// 元素附着持续回合数，以及反应残留效果每回合伤害占触发伤害的比例
+const ELEMENT_AURA_ROUNDS = 2;
+const REACTION_LINGERING_RATIO = 0.1;
+
+// 生态链未配置攻击方克制系数时使用的默认值
+const DEFAULT_COUNTER_MULTIPLIER = 1.5;
+
+// 范围技能默认参数
+const DEFAULT_SKILL_RADIUS = 1;
+const DEFAULT_CHAIN_COUNT = 2;
+const DEFAULT_CHAIN_FALLOFF = 0.7;
+
+// 每队同时存活的召唤物默认上限
+const DEFAULT_SUMMON_LIMIT = 4;
+
+// 连续时间模式: 固定时间步长、每回合对应的战斗时间，以及攻速与法力获取
+const REALTIME_TICK_SECONDS = 0.1;
+const REALTIME_ROUND_SECONDS = 2;
+const TICKS_PER_ROUND = Math.round(REALTIME_ROUND_SECONDS / REALTIME_TICK_SECONDS);
+const ATTACK_SPEED_PER_SPEED = 0.05; // 未设置攻速时按速度推算: 速度 10 → 每秒 0.5 次
+const MIN_ATTACK_SPEED = 0.2;
+const MAX_ATTACK_SPEED = 5;
+const DEFAULT_CAST_TIME = 0.5;
+const MANA_PER_ATTACK = 10;
+const MANA_PER_DAMAGE_TAKEN = 0.1;
+const MAX_MANA_PER_HIT = 15;
+
+// 触发器以自身为目标时跳过的负面效果
+const OFFENSIVE_EFFECTS: SkillEffect['type'][] = ['stun', 'debuff', 'dot', 'taunt'];
+
+// 棋盘与移动默认值
+const DEFAULT_BOARD_SIZE = { width: 8, height: 8 };
+
+const TERRAIN_LABELS: Record<TerrainType, string> = {
+  plains: '平原',
+  forest: '森林',
+  mountains: '山地',
+  desert: '沙漠',
+  snow: '雪地',
+  swamp: '沼泽',
+  city: '城市',
+  fire: '火焰',
+  water: '水域'
+};
+
+// 可被buff修改的战斗属性
+type BuffableStat = 'attack' | 'defense' | 'magicPower' | 'magicResistance' | 'speed' | 'critRate' | 'critDamage' | 'lifesteal' | 'thorns';
+const BUFFABLE_STATS: BuffableStat[] = [
+  'attack', 'defense', 'magicPower', 'magicResistance', 'speed', 'critRate', 'critDamage', 'lifesteal', 'thorns'
+];
+
+// 比例类属性: 增益直接叠加比例值，而不是按基础值的百分比计算
+const FLAT_RATIO_STATS: BuffableStat[] = ['lifesteal', 'thorns'];
+
+const formatStatAmount = (stat: BuffableStat, amount: number): string =>
+  FLAT_RATIO_STATS.includes(stat) ? `${Math.round(amount * 100)}%` : `${amount}`;
+
+const STAT_LABELS: Record<BuffableStat, string> = {
+  attack: '攻击力',
+  defense: '防御力',
+  magicPower: '法术强度',
+  magicResistance: '魔法抗性',
+  speed: '速度',
+  critRate: '暴击率',
+  critDamage: '暴击伤害',
+  lifesteal: '吸血',
+  thorns: '反伤'
+};
+
+// 派系支持两种定义: 成员直接获得加成 (GameContext) 或按人数阈值分阶 (types/balance)
+export type BattleFaction = Faction | TieredFaction;
+
+// 战斗开始时传入的羁绊、派系与战斗模式，未传入时使用 setBonds/setFactions/setCombatMode 的设置
+export interface BattleModifiers {
+  bonds?: Bond[];
+  factions?: BattleFaction[];
+  combatMode?: CombatMode;
+}
+
+// 已激活的派系加成
+export interface ActiveFactionBonus {
+  factionId: string;
+  name: string;
+  memberCount: number;
+  threshold?: number; // 分阶派系达到的人数阈值
+  statModifiers: Record<string, number>; // 属性百分比修正
+}
+
+// 单场战斗中单位的统计数据
+export interface UnitBattleStatistics {
+  damageDealt: number;
+  damageTaken: number;
+  healingDone: number;
+}
 
 export class BattleSystem {
   private state: BattleState;
+  private rng: RandomSource;
+  private balanceParameters: BalanceParameters = { ...DEFAULT_BALANCE_PARAMETERS };
+  private damageFormula: DamageFormula = getDamageFormula();
+  private bonds: Bond[] = [];
+  private factions: BattleFaction[] = [];
+  private advancedCombat = false;
+  private skillSynergy: SkillSynergy | null = null;
+  private reactionCounts: Record<string, number> = {};
+  private unitEcosystem: UnitEcosystem | null = null;
+  private comboStacks: Record<string, { targetId: string; stacks: number }> = {};
+  private activeBonds: { alpha: Bond[]; beta: Bond[] } = { alpha: [], beta: [] };
+  private activeFactions: { alpha: ActiveFactionBonus[]; beta: ActiveFactionBonus[] } = { alpha: [], beta: [] };
+  private equipment: EquipmentSystem | null = null;
+  private activeItemSets: { alpha: ActiveItemSet[]; beta: ActiveItemSet[] } = { alpha: [], beta: [] };
+  private loggingEnabled = true;
+  private unitStatistics: Record<string, UnitBattleStatistics> = {};
+  private buffStacks: Record<string, BuffStackManager> = {};
+  private baseStats: Record<string, Record<BuffableStat, number>> = {};
+  private grid = new BattleGrid(DEFAULT_BOARD_SIZE.width, DEFAULT_BOARD_SIZE.height);
+  private terrainManager: TerrainManager | null = null;
+  private customTerrainTiles: Record<string, TerrainType> = {};
+  private terrainVariety = 0;
+  private defaultController: UnitController = new UnitAI();
+  private controllers: Record<string, UnitController> = {};
+  private summonLimit = DEFAULT_SUMMON_LIMIT;
+  private summonCount = 0;
+  private resolvedDeaths = new Set<string>();
+  private triggers = new TriggerRegistry();
+  private typeTriggers: Record<string, TriggerDefinition[]> = { ...DEFAULT_UNIT_TYPE_TRIGGERS };
+  private combatMode: CombatMode = 'turnBased';
+  private actionTimers: Record<string, number> = {}; // 连续时间模式下距离下次行动的步数
+  private castingSkills: Record<string, { skillId: string; targetId: string }> = {};
+  private elapsedTicks = 0;
   
-  constructor() {
+  // 随机数源可替换，默认使用 SeededRandom；相同队伍 + 相同种子得到相同的战斗日志
+  constructor(private rngFactory: RandomSourceFactory = seed => new SeededRandom(seed)) {
     this.state = {
       id: crypto.randomUUID(),
       round: 0,
@@ -21,30 +181,410 @@ export class BattleSystem {
       environmentEffects: true,
       turnPhase: 'preparation',
       phaseTime: 30,
-      matchups: []
+      matchups: [],
+      board: { ...DEFAULT_BOARD_SIZE }
     };
+    this.rng = this.rngFactory(generateSeed());
   }
 
-  initializeBattle(alphaTeam: Unit[], betaTeam: Unit[], terrainType: TerrainType = 'plains'): void {
-    this.state.teams.alpha = JSON.parse(JSON.stringify(alphaTeam));
-    this.state.teams.beta = JSON.parse(JSON.stringify(betaTeam));
+  initializeBattle(
+    alphaTeam: Unit[], 
+    betaTeam: Unit[], 
+    terrainType: TerrainType = 'plains',
+    seed: number = generateSeed(),
+    modifiers: BattleModifiers = {}
+  ): void {
+    this.validateUnitIds([...alphaTeam, ...betaTeam]);
+    this.validateBehaviorTrees([...alphaTeam, ...betaTeam]);
+    
+    this.rng = this.rngFactory(seed);
+    this.state.id = `battle-${seed}`;
+    this.state.seed = seed;
+    this.state.winner = undefined;
+    this.state.teams.alpha = alphaTeam.map(unit => this.createUnit(unit, unit.stars, unit.items));
+    this.state.teams.beta = betaTeam.map(unit => this.createUnit(unit, unit.stars, unit.items));
     this.state.round = 0;
     this.state.status = 'preparing';
     this.state.log = [];
-    this.state.terrain = {
-      type: terrainType,
-      effects: this.getTerrainEffects(terrainType)
+    this.unitStatistics = {};
+    this.reactionCounts = {};
+    this.comboStacks = {};
+    this.summonCount = 0;
+    this.resolvedDeaths.clear();
+    this.triggers.reset();
+    this.state.combatMode = modifiers.combatMode ?? this.combatMode;
+    this.state.elapsedTime = this.state.combatMode === 'realtime' ? 0 : undefined;
+    this.actionTimers = {};
+    this.castingSkills = {};
+    this.elapsedTicks = 0;
+    this.setTerrain(terrainType);
+    
+    this.deployUnits();
+    this.applyEquipmentEffects();
+    this.applyBondEffects(modifiers.bonds ?? this.bonds);
+    this.applyFactionEffects(modifiers.factions ?? this.factions);
+    this.initializeBuffStacks();
+    [...this.state.teams.alpha, ...this.state.teams.beta].forEach(unit => this.subscribeTriggers(unit));
+  }
+
+  // 由单位数据 (1 星属性)、星级与装备生成战斗单位，不修改传入的单位
+  createUnit(template: Unit, stars?: number, items?: string[]): Unit {
+    return createStarredUnit(template, stars, items);
+  }
+
+  // 属性、buff 与目标均按单位ID查找，双方单位ID重复时拒绝开始战斗
+  private validateUnitIds(units: Unit[]): void {
+    const seen = new Set<string>();
+    units.forEach(unit => {
+      if (seen.has(unit.id)) {
+        throw new Error(`单位ID重复: ${unit.id}`);
+      }
+      seen.add(unit.id);
+    });
+  }
+
+  // 行为树不合法时拒绝开始战斗
+  private validateBehaviorTrees(units: Unit[]): void {
+    units.forEach(unit => {
+      if (!unit.behaviorTree) return;
+      
+      const errors = validateBehaviorTree(unit.behaviorTree, unit);
+      if (errors.length > 0) {
+        throw new Error(`${unit.name} 的行为树不合法: ${errors.join('; ')}`);
+      }
+    });
+  }
+
+  setEnvironmentEffects(enabled: boolean): void {
+    this.state.environmentEffects = enabled;
+  }
+
+  // 手动指定部分格子的地形 (key 为 "x,y")，在每场战斗生成地形图后覆盖
+  setTerrainTiles(tiles: Record<string, TerrainType>): void {
+    this.customTerrainTiles = { ...tiles };
+  }
+
+  // 随机地形格子的比例 (0-1)，默认 0 即整张地图为所选地形
+  setTerrainVariety(variety: number): void {
+    this.terrainVariety = Math.min(1, Math.max(0, variety));
+  }
+
+  // 以主地形为基础生成逐格地形图，使用战斗随机数源保证可复现
+  private generateTerrainMap(baseTerrain: TerrainType): void {
+    this.terrainManager = new TerrainManager(this.grid, { baseTerrain, variety: this.terrainVariety, random: this.rng });
+    
+    Object.entries(this.customTerrainTiles).forEach(([position, type]) => {
+      const [x, y] = position.split(',').map(Number);
+      this.terrainManager!.setTerrainAt(x, y, type);
+    });
+    
+    this.state.terrain.tiles = this.terrainManager.getTerrainMap();
+  }
+
+  // 单位所站格子的地形，未开启环境效果或没有位置时为 null
+  getTileTerrain(unit: Unit): TerrainType | null {
+    if (!this.state.environmentEffects || !unit.position || !this.terrainManager) return null;
+    return this.terrainManager.getTerrainAt(unit.position.x, unit.position.y);
+  }
+
+  private getTileEffect(unit: Unit): TerrainEffect {
+    const tileTerrain = this.getTileTerrain(unit);
+    return tileTerrain ? calculateTerrainImpact(tileTerrain) : {};
+  }
+
+  setBoardSize(width: number, height: number): void {
+    this.grid = new BattleGrid(width, height);
+    this.state.board = { width, height };
+  }
+
+  getUnitRange(unit: Unit): number {
+    return unit.range ?? getDefaultRange(unit.type);
+  }
+
+  // 移动格数受所站格子的地形速度修正，至少移动 1 格
+  getMoveSpeed(unit: Unit): number {
+    const moveSpeed = unit.moveSpeed ?? DEFAULT_MOVE_SPEED;
+    return Math.max(1, Math.floor(moveSpeed * (this.getTileEffect(unit).speed ?? 1)));
+  }
+
+  isRanged(unit: Unit): boolean {
+    return this.getUnitRange(unit) > 1;
+  }
+
+  // 保留合法且不冲突的预设站位，其余单位按近战在前、远程在后自动布阵
+  private deployUnits(): void {
+    const occupied = new Set<string>();
+    const key = (p: GridPosition) => `${p.x},${p.y}`;
+    
+    (['alpha', 'beta'] as const).forEach(team => {
+      const unplaced: Unit[] = [];
+      
+      this.state.teams[team].forEach(unit => {
+        if (unit.position && this.grid.isInside(unit.position) && !occupied.has(key(unit.position))) {
+          unit.position = { x: unit.position.x, y: unit.position.y };
+          occupied.add(key(unit.position));
+        } else {
+          unplaced.push(unit);
+        }
+      });
+      
+      // 部署区占满后从本方后排中间向外寻找最近的空闲格子，整个棋盘占满时拒绝部署
+      const teamSlots = this.grid.getDeploymentSlots(team);
+      const slots = teamSlots.filter(slot => !occupied.has(key(slot)));
+      const backRow = teamSlots[Math.min(this.grid.width, teamSlots.length - 1)];
+      unplaced
+        .sort((a, b) => Number(this.isRanged(a)) - Number(this.isRanged(b)))
+        .forEach((unit, index) => {
+          const slot = slots[index] ?? this.findFreeTile(backRow, p => occupied.has(key(p)));
+          if (!slot) {
+            throw new Error(`棋盘已满，无法部署 ${unit.name}`);
+          }
+          unit.position = { ...slot };
+          occupied.add(key(slot));
+        });
+    });
+  }
+
+  private isTileOccupied(position: GridPosition): boolean {
+    return [...this.state.teams.alpha, ...this.state.teams.beta].some(unit => 
+      unit.currentHP > 0 && unit.position?.x === position.x && unit.position?.y === position.y
+    );
+  }
+
+  getDistance(a: Unit, b: Unit): number {
+    if (!a.position || !b.position) return 0;
+    return this.grid.distance(a.position, b.position);
+  }
+
+  // 目标不在射程内时沿路径向其移动，返回移动后是否可以行动
+  private approachTarget(unit: Unit, target: Unit): boolean {
+    const range = this.getUnitRange(unit);
+    if (unit === target || this.getDistance(unit, target) <= range) return true;
+    
+    const path = this.grid.findPath(unit.position!, target.position!, range, p => this.isTileOccupied(p));
+    const steps = path.slice(0, this.getMoveSpeed(unit));
+    if (steps.length === 0) return false;
+    
+    const start = { ...unit.position! };
+    unit.position = { ...steps[steps.length - 1] };
+    unit.status = 'moving';
+    this.logAction(
+      unit, 
+      target, 
+      'move', 
+      steps.length, 
+      `${unit.name} 向 ${target.name} 移动了 ${steps.length} 格`,
+      undefined,
+      { path: [start, ...steps] }
+    );
+    this.refreshUnitStatus(unit);
+    
+    return this.getDistance(unit, target) <= range;
+  }
+
+  setBalanceParameters(params: BalanceParameters): void {
+    this.balanceParameters = { ...DEFAULT_BALANCE_PARAMETERS, ...params };
+  }
+
+  // 羁绊在 initializeBattle 时生效，需在初始化前设置
+  setBonds(bonds: Bond[]): void {
+    this.bonds = [...bonds];
+  }
+
+  setMaxRounds(maxRounds: number): void {
+    this.state.maxRounds = maxRounds;
+  }
+
+  // 关闭日志可显著提升批量模拟性能
+  setLoggingEnabled(enabled: boolean): void {
+    this.loggingEnabled = enabled;
+  }
+
+  // 高级战斗 (元素反应) 开关，对应 advancedCombat 特性开关
+  setAdvancedCombat(enabled: boolean): void {
+    this.advancedCombat = enabled;
+  }
+
+  setSkillSynergy(synergy: SkillSynergy | null): void {
+    this.skillSynergy = synergy;
+  }
+
+  // 本场战斗中各元素反应的触发次数 (按元素组合)
+  getReactionCounts(): Record<string, number> {
+    return { ...this.reactionCounts };
+  }
+
+  // 单位生态链: 克制关系与连击系数参与伤害计算，未设置时不生效
+  setUnitEcosystem(ecosystem: UnitEcosystem | null): void {
+    this.unitEcosystem = ecosystem;
+  }
+
+  // 装备定义、套装与适配系数，未设置时忽略单位身上的装备 (对应 itemSystem 特性开关)
+  setEquipmentSystem(equipment: EquipmentSystem | null): void {
+    this.equipment = equipment;
+  }
+
+  setFactions(factions: BattleFaction[]): void {
+    this.factions = [...factions];
+  }
+
+  getActiveBonds(): { alpha: Bond[]; beta: Bond[] } {
+    return {
+      alpha: [...this.activeBonds.alpha],
+      beta: [...this.activeBonds.beta]
+    };
+  }
+
+  getActiveFactions(): { alpha: ActiveFactionBonus[]; beta: ActiveFactionBonus[] } {
+    return {
+      alpha: [...this.activeFactions.alpha],
+      beta: [...this.activeFactions.beta]
+    };
+  }
+
+  getActiveItemSets(): { alpha: ActiveItemSet[]; beta: ActiveItemSet[] } {
+    return {
+      alpha: [...this.activeItemSets.alpha],
+      beta: [...this.activeItemSets.beta]
     };
+  }
+
+  // 按装备与已集齐的套装修正单位属性 (百分比)
+  private applyEquipmentEffects(): void {
+    this.activeItemSets = { alpha: [], beta: [] };
+    if (!this.equipment) return;
     
-    this.applyTerrainEffectsToAllUnits();
+    (['alpha', 'beta'] as const).forEach(team => {
+      const units = this.state.teams[team];
+      const { unitModifiers, activeSets } = resolveEquipmentBonuses(units, this.equipment!);
+      
+      units.forEach(unit => {
+        Object.entries(unitModifiers[unit.id] ?? {}).forEach(([stat, modifier]) => {
+          this.applyStatModifier(unit, stat, modifier);
+        });
+      });
+      
+      this.activeItemSets[team] = activeSets;
+      activeSets.forEach(set => {
+        const holder = units.find(unit => unit.id === set.holders[0])!;
+        this.logAction(
+          holder,
+          holder,
+          'passive',
+          set.holders.length,
+          `${team === 'alpha' ? 'A队' : 'B队'} 激活套装 ${set.name} (${set.requiredItems.length}件)`
+        );
+      });
+    });
   }
 
-  private applyTerrainEffectsToAllUnits(): void {
-    if (!this.state.environmentEffects) return;
+  // 根据队伍构成激活羁绊，并按百分比修正单位属性
+  private applyBondEffects(bonds: Bond[]): void {
+    this.activeBonds = { alpha: [], beta: [] };
     
-    const allUnits = [...this.state.teams.alpha, ...this.state.teams.beta];
-    for (const unit of allUnits) {
-      this.applyTerrainEffects(unit);
+    (['alpha', 'beta'] as const).forEach(team => {
+      const units = this.state.teams[team];
+      
+      bonds.forEach(bond => {
+        const members = units.filter(unit => bond.requiredTypes.includes(unit.type));
+        if (members.length < bond.minUnits) return;
+        
+        this.activeBonds[team].push(bond);
+        this.logAction(
+          members[0], 
+          members[0], 
+          'passive', 
+          members.length, 
+          `${team === 'alpha' ? 'A队' : 'B队'} 激活羁绊 ${bond.name} (${members.length}/${bond.minUnits})`
+        );
+      });
+      
+      units.forEach(unit => {
+        this.activeBonds[team].forEach(bond => {
+          bond.effects.forEach(effect => {
+            this.applyStatModifier(unit, effect.target, effect.type === 'buff' ? effect.value : -effect.value);
+          });
+        });
+      });
+    });
+  }
+
+  // 派系加成只作用于派系成员；分阶派系取达到的最高人数阈值
+  private applyFactionEffects(factions: BattleFaction[]): void {
+    this.activeFactions = { alpha: [], beta: [] };
+    
+    (['alpha', 'beta'] as const).forEach(team => {
+      factions.forEach(faction => {
+        const members = this.state.teams[team].filter(unit => 
+          unit.faction === faction.id || unit.faction === faction.name
+        );
+        const bonus = this.resolveFactionBonus(faction, members.length);
+        if (!bonus) return;
+        
+        this.activeFactions[team].push(bonus);
+        const mechanics = 'specialMechanics' in faction
+          ? (faction.specialMechanics ?? [])
+              .map(mechanic => parseMechanicTrigger(faction.id, mechanic))
+              .filter((trigger): trigger is TriggerDefinition => trigger !== null)
+          : [];
+        members.forEach(unit => {
+          Object.entries(bonus.statModifiers).forEach(([stat, modifier]) => {
+            this.applyStatModifier(unit, stat, modifier);
+          });
+          mechanics.forEach(trigger => this.triggers.register(unit.id, trigger));
+        });
+        
+        this.logAction(
+          members[0], 
+          members[0], 
+          'passive', 
+          members.length, 
+          bonus.threshold !== undefined
+            ? `${team === 'alpha' ? 'A队' : 'B队'} 激活派系 ${faction.name} (${members.length}/${bonus.threshold})`
+            : `${team === 'alpha' ? 'A队' : 'B队'} 激活派系 ${faction.name} (${members.length}名成员)`
+        );
+      });
+    });
+  }
+
+  private resolveFactionBonus(faction: BattleFaction, memberCount: number): ActiveFactionBonus | null {
+    if (memberCount === 0) return null;
+    
+    if ('bondThresholds' in faction) {
+      const threshold = [...faction.bondThresholds]
+        .sort((a, b) => b - a)
+        .find(t => memberCount >= t && faction.bondEffects[t]);
+      if (threshold === undefined) return null;
+      
+      return {
+        factionId: faction.id,
+        name: faction.name,
+        memberCount,
+        threshold,
+        statModifiers: { ...faction.bondEffects[threshold].statModifiers }
+      };
+    }
+    
+    const statModifiers: Record<string, number> = {};
+    faction.bonuses.forEach(bonus => {
+      statModifiers[bonus.target] = (statModifiers[bonus.target] ?? 0) + 
+        (bonus.type === 'buff' ? bonus.value : -bonus.value);
+    });
+    
+    return { factionId: faction.id, name: faction.name, memberCount, statModifiers };
+  }
+
+  // 按百分比修正属性；生命上限变化时同步缩放当前生命，未知属性忽略
+  private applyStatModifier(unit: Unit, stat: string, modifier: number): void {
+    if (stat === 'shield') {
+      unit.shield = (unit.shield ?? 0) + Math.max(0, Math.floor(unit.maxHP * modifier));
+    } else if (FLAT_RATIO_STATS.includes(stat as BuffableStat)) {
+      unit[stat as BuffableStat] = Math.max(0, (unit[stat as BuffableStat] ?? 0) + modifier);
+    } else if (stat === 'maxHP') {
+      unit.maxHP = Math.max(1, Math.floor(unit.maxHP * (1 + modifier)));
+      unit.currentHP = Math.min(unit.maxHP, Math.floor(unit.currentHP * (1 + modifier)));
+    } else if (BUFFABLE_STATS.includes(stat as BuffableStat)) {
+      unit[stat as BuffableStat] = unit[stat as BuffableStat] * (1 + modifier);
     }
   }
 
@@ -63,44 +603,414 @@ export class BattleSystem {
       return;
     }
     
+    if (this.state.combatMode === 'realtime') {
+      this.executeRealtimeRound();
+    } else {
+      this.executeTurnBasedRound();
+    }
+    
+    this.applyOverTimeEffects();
+    this.applyDamageOverTime();
+    this.resolveDeathTriggers();
+    this.tickStatusEffects();
+    
+    if (!this.isCompleted()) {
+      this.checkBattleEnd();
+    }
+  }
+
+  private executeTurnBasedRound(): void {
     this.regenerateMana();
     
     const allUnits = [...this.state.teams.alpha, ...this.state.teams.beta]
       .filter(unit => unit.currentHP > 0)
       .sort((a, b) => b.speed - a.speed);
+    
+    allUnits.forEach(unit => this.emit('roundStart', unit));
 
     for (const unit of allUnits) {
-      if (unit.status === 'stunned') {
-        unit.status = 'idle';
-        this.logAction(unit, unit, 'recover', 0, `${unit.name} 从眩晕中恢复`);
+      if (unit.currentHP <= 0 || this.consumeStun(unit)) {
         continue;
       }
       
-      if (unit.currentHP > 0) {
-        this.executeUnitAction(unit);
-      }
+      this.executeUnitAction(unit);
+      this.resolveDeathTriggers();
       
       if (this.checkBattleEnd()) {
         break;
       }
     }
+  }
+
+  /**
+   * 连续时间模式: 每回合按固定步长推进 REALTIME_ROUND_SECONDS 秒。
+   * 单位按各自的攻击间隔行动，法力来自攻击与受伤而非回合恢复，满法力时自动施放技能。
+   * 持续效果、buff 与状态仍按回合结算，因此输出的 BattleState 与回合制一致。
+   */
+  private executeRealtimeRound(): void {
+    const allUnits = [...this.state.teams.alpha, ...this.state.teams.beta]
+      .filter(unit => unit.currentHP > 0)
+      .sort((a, b) => b.speed - a.speed);
     
-    this.applyOverTimeEffects();
+    allUnits.forEach(unit => this.emit('roundStart', unit));
+    
+    for (let tick = 0; tick < TICKS_PER_ROUND; tick++) {
+      this.elapsedTicks++;
+      this.state.elapsedTime = Number((this.elapsedTicks * REALTIME_TICK_SECONDS).toFixed(1));
+      
+      for (const unit of allUnits) {
+        if (unit.currentHP <= 0) continue;
+        
+        const remaining = (this.actionTimers[unit.id] ?? 0) - 1;
+        this.actionTimers[unit.id] = remaining;
+        if (remaining > 0) continue;
+        
+        this.actionTimers[unit.id] = this.executeRealtimeAction(unit);
+        this.resolveDeathTriggers();
+        
+        if (this.checkBattleEnd()) return;
+      }
+    }
+  }
+
+  // 执行一次行动并返回到下次行动的步数
+  private executeRealtimeAction(unit: Unit): number {
+    this.refreshEffectiveStats(unit);
+    const attackTicks = this.toTicks(1 / this.getAttackSpeed(unit));
+    
+    if (this.consumeStun(unit)) {
+      if (this.castingSkills[unit.id]) {
+        delete this.castingSkills[unit.id];
+        this.logAction(unit, unit, 'skill', 0, `${unit.name} 的施法被打断`);
+      }
+      return attackTicks;
+    }
+    
+    const targets = this.getValidTargets(unit);
+    if (targets.length === 0) return attackTicks;
+    
+    // 施法完成时重新选择存活目标并检查射程，目标离开射程时施法失败 (不消耗法力)
+    const casting = this.castingSkills[unit.id];
+    if (casting) {
+      delete this.castingSkills[unit.id];
+      const decision: AIDecision = { action: 'skill', skillId: casting.skillId, targetId: casting.targetId };
+      const target = this.resolveTarget(unit, decision, targets);
+      if (unit === target || this.getDistance(unit, target) <= this.getUnitRange(unit)) {
+        this.performSkill(unit, target, casting.skillId);
+      } else {
+        this.logAction(unit, target, 'skill', 0, `${target.name} 已离开射程，${unit.name} 的施法失败`, casting.skillId);
+      }
+      this.refreshUnitStatus(unit);
+      this.reduceCooldowns(unit);
+      return attackTicks;
+    }
+    
+    const skill = unit.maxMana && unit.currentMana >= unit.maxMana ? this.selectSkill(unit) : undefined;
+    if (!skill) {
+      this.executeUnitAction(unit);
+      return attackTicks;
+    }
+    
+    const target = this.resolveTarget(unit, { action: 'skill', skillId: skill.id }, targets);
+    if (!this.approachTarget(unit, target)) {
+      this.reduceCooldowns(unit);
+      return attackTicks;
+    }
+    
+    const castTime = skill.castTime ?? DEFAULT_CAST_TIME;
+    if (castTime <= 0) {
+      this.performSkill(unit, target, skill.id);
+      this.reduceCooldowns(unit);
+      return attackTicks;
+    }
+    
+    this.castingSkills[unit.id] = { skillId: skill.id, targetId: target.id };
+    unit.status = 'casting';
+    this.logAction(unit, target, 'skill', 0, `${unit.name} 开始施放 ${skill.name}`, skill.id);
+    return this.toTicks(castTime);
+  }
+
+  private toTicks(seconds: number): number {
+    return Math.max(1, Math.round(seconds / REALTIME_TICK_SECONDS));
+  }
+
+  // 每秒行动次数: 优先使用单位攻速，否则按 (含buff的) 速度推算
+  getAttackSpeed(unit: Unit): number {
+    const attackSpeed = unit.attackSpeed ?? unit.speed * ATTACK_SPEED_PER_SPEED;
+    return Math.min(MAX_ATTACK_SPEED, Math.max(MIN_ATTACK_SPEED, attackSpeed));
+  }
+
+  // 新战斗使用的默认模式，可被 initializeBattle 的 modifiers.combatMode 覆盖
+  setCombatMode(mode: CombatMode): void {
+    this.combatMode = mode;
+  }
+
+  // 眩晕中的单位跳过本次行动，按行动次数计算持续时间
+  private consumeStun(unit: Unit): boolean {
+    const stun = unit.statusEffects?.find(effect => effect.kind === 'stun');
+    if (!stun) return false;
+    
+    stun.remainingActions = (stun.remainingActions ?? 1) - 1;
+    if (stun.remainingActions <= 0) {
+      this.removeStatusEffect(unit, stun);
+      this.logAction(unit, unit, 'recover', 0, `${unit.name} 从眩晕中恢复`);
+    }
+    return true;
+  }
+
+  // 添加状态，同类状态刷新持续时间而不叠加
+  addStatusEffect(unit: Unit, effect: Omit<StatusEffect, 'id' | 'appliedRound'>): StatusEffect {
+    if (!unit.statusEffects) {
+      unit.statusEffects = [];
+    }
+    
+    const existing = unit.statusEffects.find(e => e.kind === effect.kind);
+    if (existing) {
+      existing.sourceId = effect.sourceId;
+      if (effect.remainingRounds !== undefined) {
+        existing.remainingRounds = Math.max(existing.remainingRounds ?? 0, effect.remainingRounds);
+      }
+      if (effect.remainingActions !== undefined) {
+        existing.remainingActions = Math.max(existing.remainingActions ?? 0, effect.remainingActions);
+      }
+      return existing;
+    }
+    
+    const statusEffect: StatusEffect = {
+      ...effect,
+      id: `${effect.kind}-${unit.id}-${this.state.round}-${unit.statusEffects.length}`,
+      appliedRound: this.state.round
+    };
+    
+    unit.statusEffects.push(statusEffect);
+    this.refreshUnitStatus(unit);
+    return statusEffect;
+  }
+
+  private removeStatusEffect(unit: Unit, effect: StatusEffect): void {
+    if (!unit.statusEffects) return;
+    
+    unit.statusEffects = unit.statusEffects.filter(e => e !== effect);
+    this.refreshUnitStatus(unit);
+  }
+
+  // 添加增益/减益到单位的buff栈，并重新计算有效属性
+  addBuff(unit: Unit, buff: Buff): void {
+    const stack = this.getBuffStack(unit);
+    stack.addBuff(buff);
+    this.refreshEffectiveStats(unit);
+  }
+
+  private getBuffStack(unit: Unit): BuffStackManager {
+    if (!this.buffStacks[unit.id]) {
+      this.buffStacks[unit.id] = new BuffStackManager();
+    }
+    return this.buffStacks[unit.id];
+  }
+
+  // 记录每个单位的基础属性 (已包含羁绊与地形修正)，战斗中的有效属性由基础属性 + buff 推导
+  private initializeBuffStacks(): void {
+    this.buffStacks = {};
+    this.baseStats = {};
+    
+    [...this.state.teams.alpha, ...this.state.teams.beta].forEach(unit => this.registerUnit(unit));
+  }
+
+  // 记录单位的基础属性并创建buff堆栈，战斗中生成的单位同样需要注册
+  private registerUnit(unit: Unit): void {
+    this.buffStacks[unit.id] = new BuffStackManager();
+    this.baseStats[unit.id] = BUFFABLE_STATS.reduce((stats, stat) => {
+      stats[stat] = unit[stat] ?? 0;
+      return stats;
+    }, {} as Record<BuffableStat, number>);
+    unit.buffs = [];
+    unit.elementAuras = [];
+  }
+
+  private refreshEffectiveStats(unit: Unit): void {
+    const baseStats = this.baseStats[unit.id];
+    if (!baseStats) return;
+    
+    const stack = this.getBuffStack(unit);
+    const effectiveStats = stack.applyBuffEffects(baseStats);
+    
+    BUFFABLE_STATS.forEach(stat => {
+      unit[stat] = Math.max(0, effectiveStats[stat]);
+    });
+    
+    unit.buffs = stack.getActiveBuffs().map(buff => ({ ...buff, effects: { ...buff.effects } }));
+    this.refreshUnitStatus(unit);
+  }
+
+  // 回合结束时统一递减持续时间，过期状态写入战斗日志
+  private tickStatusEffects(): void {
+    const allUnits = [...this.state.teams.alpha, ...this.state.teams.beta];
+    
+    allUnits.forEach(unit => {
+      [...(unit.statusEffects || [])].forEach(effect => {
+        if (effect.remainingRounds === undefined) return;
+        
+        effect.remainingRounds--;
+        if (effect.remainingRounds > 0) return;
+        
+        this.removeStatusEffect(unit, effect);
+        if (unit.currentHP > 0) {
+          this.logAction(unit, unit, 'expire', 0, `${unit.name} 的状态效果结束`);
+        }
+      });
+      
+      unit.elementAuras = unit.elementAuras?.filter(aura => --aura.remainingRounds > 0);
+      
+      const expiredBuffs = this.getBuffStack(unit).updateBuffs();
+      if (expiredBuffs.length === 0) return;
+      
+      this.refreshEffectiveStats(unit);
+      if (unit.currentHP <= 0) return;
+      
+      expiredBuffs.forEach(buff => {
+        this.logAction(
+          unit, 
+          unit, 
+          'expire', 
+          0, 
+          buff.name === DEFEND_BUFF_NAME
+            ? `${unit.name} 的防御姿态结束`
+            : `${unit.name} 的${buff.name}效果结束`
+        );
+      });
+    });
+  }
+
+  // 结算持续伤害 (DoT)
+  private applyDamageOverTime(): void {
+    const allUnits = [...this.state.teams.alpha, ...this.state.teams.beta];
+    
+    allUnits.forEach(unit => {
+      if (unit.currentHP <= 0) return;
+      
+      this.getBuffStack(unit).getActiveBuffs().forEach(buff => {
+        if (!buff.tickDamage || unit.currentHP <= 0) return;
+        
+        const damage = Math.floor(buff.tickDamage);
+        const source = this.findUnit(buff.source) || unit;
+        
+        this.logAction(source, unit, 'buff', -damage, `${unit.name} 受到${buff.name}效果 ${damage} 点伤害`);
+        this.dealDamage(source, unit, damage, false);
+        
+        if (unit.currentHP <= 0) {
+          this.defeatUnit(source, unit, 'buff');
+        }
+      });
+    });
+  }
+
+  private findUnit(unitId: string): Unit | undefined {
+    return this.state.teams.alpha.find(u => u.id === unitId) 
+      || this.state.teams.beta.find(u => u.id === unitId);
+  }
+
+  private refreshUnitStatus(unit: Unit): void {
+    if (unit.currentHP <= 0) {
+      unit.status = 'dead';
+    } else if (unit.statusEffects?.some(e => e.kind === 'stun')) {
+      unit.status = 'stunned';
+    } else if (unit.buffs?.some(b => b.name === DEFEND_BUFF_NAME)) {
+      unit.status = 'defending';
+    } else {
+      unit.status = 'idle';
+    }
+  }
+
+  // 按单位类型注册自定义控制器，未注册的类型使用默认的 UnitAI
+  registerController(unitType: string, controller: UnitController): void {
+    this.controllers[unitType] = controller;
+  }
+
+  unregisterController(unitType: string): void {
+    delete this.controllers[unitType];
+  }
+
+  setDefaultController(controller: UnitController): void {
+    this.defaultController = controller;
+  }
+
+  // 单位自带的行为树优先于按类型注册的控制器
+  getController(unit: Unit): UnitController {
+    const typeController = this.controllers[unit.type] ?? this.defaultController;
+    return unit.behaviorTree ? new BehaviorTreeController(unit.behaviorTree, typeController) : typeController;
+  }
+
+  private createBattleView(unit: Unit): BattleView {
+    return {
+      round: this.state.round,
+      self: unit,
+      allies: this.getAllyTargets(unit),
+      enemies: this.getValidTargets(unit),
+      getDistance: (a, b) => this.getDistance(a as Unit, b as Unit),
+      getRange: target => this.getUnitRange(target as Unit),
+      random: () => this.rng.next()
+    };
   }
 
   executeUnitAction(unit: Unit): void {
+    this.refreshEffectiveStats(unit);
+    
     const targets = this.getValidTargets(unit);
     if (targets.length === 0) return;
 
-    const target = this.selectTarget(unit, targets);
+    let decision = this.getController(unit).decideAction(this.createBattleView(unit));
+    // 连续时间模式下技能只在满法力时自动施放
+    if (this.state.combatMode === 'realtime' && decision.action === 'skill') {
+      decision = { action: 'attack', targetId: decision.targetId };
+    }
+    const action = decision.action;
+    const target = this.resolveTarget(unit, decision, targets);
+    
+    if (action === 'retreat') {
+      this.retreat(unit, targets);
+      this.reduceCooldowns(unit);
+      return;
+    }
     
-    const action = this.determineAction(unit);
+    if (action !== 'defend' && (!this.approachTarget(unit, target) || action === 'move')) {
+      this.reduceCooldowns(unit);
+      return;
+    }
     
-    this.performAction(unit, target, action);
+    this.performAction(unit, target, action, decision.skillId);
     
     this.reduceCooldowns(unit);
   }
 
+  // 校验控制器给出的目标: 治疗和增益只能作用于友方，其余行动只能作用于敌方
+  private resolveTarget(unit: Unit, decision: AIDecision, targets: Unit[]): Unit {
+    const skillTargetType = decision.action === 'skill' 
+      ? this.selectSkill(unit, decision.skillId)?.targetType 
+      : undefined;
+    if (skillTargetType === 'self') return unit;
+    
+    const supportAction = decision.action === 'heal' || decision.action === 'buff' || skillTargetType === 'ally';
+    
+    // 被嘲讽时攻击性行动强制以嘲讽者为目标
+    const taunter = this.getTaunter(unit);
+    if (taunter && !supportAction) return taunter;
+    
+    const candidates = supportAction ? [unit, ...this.getAllyTargets(unit)] : targets;
+    const chosen = candidates.find(candidate => candidate.id === decision.targetId);
+    if (chosen) return chosen;
+    
+    if (supportAction) return this.selectSupportTarget(unit);
+    
+    const inRangeTargets = targets.filter(t => this.getDistance(unit, t) <= this.getUnitRange(unit));
+    return this.selectTarget(unit, inRangeTargets.length > 0 ? inRangeTargets : targets);
+  }
+
+  private getTaunter(unit: Unit): Unit | undefined {
+    const taunt = unit.statusEffects?.find(effect => effect.kind === 'taunt');
+    const taunter = taunt && this.findUnit(taunt.sourceId);
+    return taunter && taunter.currentHP > 0 && taunter.team !== unit.team ? taunter : undefined;
+  }
+
   getValidTargets(unit: Unit): Unit[] {
     const enemyTeam = unit.team === 'alpha' ? this.state.teams.beta : this.state.teams.alpha;
     return enemyTeam.filter(target => target.currentHP > 0);
@@ -111,70 +1021,65 @@ export class BattleSystem {
     return allyTeam.filter(target => target.id !== unit.id && target.currentHP > 0);
   }
 
+  // 默认目标: 生命值最低的敌人
   selectTarget(attacker: Unit, targets: Unit[]): Unit {
-    if (["Assassin", "刺客"].includes(attacker.type)) {
-      const mageTargets = targets.filter(t => ["Mage", "法师"].includes(t.type));
-      if (mageTargets.length > 0) {
-        return mageTargets.reduce((lowest, current) => 
-          current.currentHP < lowest.currentHP ? current : lowest
-        );
-      }
-    }
-    
-    if (["Priest", "牧师"].includes(attacker.type) && Math.random() > 0.5) {
-      const allies = this.getAllyTargets(attacker);
-      const woundedAllies = allies.filter(a => a.currentHP < a.maxHP * 0.7);
-      
-      if (woundedAllies.length > 0) {
-        return woundedAllies.reduce((mostWounded, current) => 
-          (current.currentHP / current.maxHP) < (mostWounded.currentHP / mostWounded.maxHP) 
-            ? current : mostWounded
-        );
-      }
-    }
-    
     return targets.reduce((lowest, current) => 
       current.currentHP < lowest.currentHP ? current : lowest
     );
   }
 
-  determineAction(unit: Unit): ActionType {
-    if (["Priest", "牧师"].includes(unit.type)) {
-      const woundedAllies = this.getAllyTargets(unit).filter(a => a.currentHP < a.maxHP * 0.7);
-      if (woundedAllies.length > 0 && unit.currentMana >= 30) {
-        return 'heal';
-      }
-    }
-    
-    const availableSkills = unit.skills?.filter(skill => 
-      skill.manaCost <= unit.currentMana && skill.currentCooldown === 0
-    ) || [];
+  // 选择友方目标 (包括自身)，优先生命比例最低的单位
+  selectSupportTarget(unit: Unit): Unit {
+    const allies = [unit, ...this.getAllyTargets(unit)];
+    return allies.reduce((mostWounded, current) => 
+      (current.currentHP / current.maxHP) < (mostWounded.currentHP / mostWounded.maxHP) 
+        ? current : mostWounded
+    );
+  }
+
+  // 逐格移动到离最近敌人更远的位置
+  private retreat(unit: Unit, enemies: Unit[]): void {
+    if (!unit.position) return;
     
-    if (availableSkills.length > 0) {
-      const skillChance = unit.magicPower > unit.attack ? 0.7 : 0.4;
-      if (Math.random() < skillChance) {
-        return 'skill';
-      }
-    }
+    const nearestEnemyDistance = (p: GridPosition) => 
+      Math.min(...enemies.map(enemy => enemy.position ? this.grid.distance(p, enemy.position) : Infinity));
+    const start = { ...unit.position };
+    const steps: GridPosition[] = [];
+    let current = start;
     
-    if (["Merchant", "商人"].includes(unit.type) && Math.random() < 0.3 && unit.currentMana >= 20) {
-      return 'buff';
+    for (let i = 0; i < this.getMoveSpeed(unit); i++) {
+      const next = this.grid.getNeighbours(current)
+        .filter(p => !this.isTileOccupied(p) && !steps.some(s => s.x === p.x && s.y === p.y))
+        .reduce<GridPosition | null>((best, p) => 
+          nearestEnemyDistance(p) > nearestEnemyDistance(best ?? current) ? p : best, null);
+      if (!next) break;
+      steps.push(next);
+      current = next;
     }
     
-    if (unit.currentHP < unit.maxHP * 0.3 && Math.random() < 0.4) {
-      return 'defend';
-    }
+    if (steps.length === 0) return;
     
-    return 'attack';
+    unit.position = { ...current };
+    unit.status = 'moving';
+    this.logAction(
+      unit, 
+      unit, 
+      'retreat', 
+      steps.length, 
+      `${unit.name} 撤退了 ${steps.length} 格`,
+      undefined,
+      { path: [start, ...steps] }
+    );
+    this.refreshUnitStatus(unit);
   }
 
-  performAction(attacker: Unit, target: Unit, action: ActionType): void {
+  performAction(attacker: Unit, target: Unit, action: ActionType, skillId?: string): void {
     switch (action) {
       case 'attack':
         this.performAttack(attacker, target);
         break;
       case 'skill':
-        this.performSkill(attacker, target);
+        this.performSkill(attacker, target, skillId);
         break;
       case 'defend':
         this.performDefend(attacker);
@@ -191,12 +1096,13 @@ export class BattleSystem {
   }
 
   performAttack(attacker: Unit, defender: Unit): void {
+    this.emit('beforeAttack', attacker, defender);
+    
     const baseDamage = this.calculateDamage(attacker, defender);
-    const isCrit = Math.random() < attacker.critRate;
+    const critChance = attacker.critRate ?? this.balanceParameters.criticalRate;
+    const isCrit = this.rng.next() < critChance;
     const damage = Math.floor(isCrit ? baseDamage * attacker.critDamage : baseDamage);
     
-    defender.currentHP = Math.max(0, defender.currentHP - damage);
-    
     this.logAction(
       attacker, 
       defender, 
@@ -207,57 +1113,171 @@ export class BattleSystem {
         : `${attacker.name} 攻击 ${defender.name}，造成 ${damage} 点伤害`
     );
     
+    this.dealDamage(attacker, defender, damage, true);
+    this.advanceCombo(attacker, defender);
+    
+    if (this.state.combatMode === 'realtime') {
+      this.gainMana(attacker, MANA_PER_ATTACK);
+    }
+    
+    if (isCrit) {
+      this.emit('onCrit', attacker, defender, { amount: damage });
+    }
+    
     if (defender.currentHP <= 0) {
-      defender.status = 'dead';
-      this.logAction(attacker, defender, 'attack', 0, `${defender.name} 已被击败`);
+      this.defeatUnit(attacker, defender, 'attack');
     }
   }
 
-  performSkill(attacker: Unit, target: Unit): void {
-    const availableSkills = attacker.skills?.filter(skill => 
-      skill.manaCost <= attacker.currentMana && skill.currentCooldown === 0
+  // 选择要释放的技能: 指定的技能可用时优先，否则选择伤害最高的可用技能
+  private selectSkill(unit: Unit, skillId?: string): Skill | undefined {
+    const availableSkills = unit.skills?.filter(skill => 
+      skill.manaCost <= unit.currentMana && skill.currentCooldown === 0
     ) || [];
+    if (availableSkills.length === 0) return undefined;
     
-    if (availableSkills.length === 0) {
-      this.performAttack(attacker, target);
-      return;
-    }
-    
-    const skill = availableSkills.reduce((strongest, current) => 
+    return availableSkills.find(s => s.id === skillId) ?? availableSkills.reduce((strongest, current) => 
       current.damage > strongest.damage ? current : strongest
     );
+  }
+
+  performSkill(attacker: Unit, target: Unit, skillId?: string): void {
+    const skill = this.selectSkill(attacker, skillId);
+    if (!skill) {
+      this.performAttack(attacker, target);
+      return;
+    }
     
-    const damage = this.calculateSkillDamage(attacker, target, skill);
-    
-    target.currentHP = Math.max(0, target.currentHP - damage);
-    
-    attacker.currentMana -= skill.manaCost;
-    
+    // 连续时间模式下满法力施放，施放后清空法力
+    attacker.currentMana = this.state.combatMode === 'realtime' ? 0 : attacker.currentMana - skill.manaCost;
     skill.currentCooldown = skill.cooldown;
     
-    this.logAction(
-      attacker, 
-      target, 
-      'skill', 
-      damage, 
-      `${attacker.name} 使用技能 ${skill.name} 对 ${target.name} 造成 ${damage} 点伤害`,
-      skill.id
-    );
-    
-    if (skill.effects && skill.effects.length > 0) {
-      this.applySkillEffects(skill.effects, attacker, target);
+    // 友方技能只在 damage > 0 时治疗 (护盾、增益类技能只结算效果)，也不触发攻击前事件
+    const friendly = skill.targetType === 'ally' || skill.targetType === 'self';
+    if (!friendly) {
+      this.emit('beforeAttack', attacker, target);
     }
     
-    if (target.currentHP <= 0) {
-      target.status = 'dead';
-      this.logAction(attacker, target, 'skill', 0, `${target.name} 已被击败`);
+    this.getSkillTargets(attacker, target, skill).forEach(({ unit, multiplier }, index) => {
+      // 施法者被反伤击杀后不再结算剩余目标
+      if (attacker.currentHP <= 0) return;
+      
+      if (friendly && skill.damage <= 0) {
+        this.logAction(
+          attacker, 
+          unit, 
+          'skill', 
+          0, 
+          `${attacker.name} 对 ${unit.name} 使用技能 ${skill.name}`,
+          skill.id
+        );
+      } else if (friendly) {
+        const healed = this.restoreHealth(attacker, unit, (skill.damage + attacker.magicPower) * multiplier);
+        this.logAction(
+          attacker, 
+          unit, 
+          'skill', 
+          healed, 
+          `${attacker.name} 使用技能 ${skill.name} 治疗 ${unit.name}，恢复 ${healed} 点生命值`,
+          skill.id
+        );
+      } else {
+        const damage = Math.floor(
+          this.calculateSkillDamage(attacker, unit, skill) * multiplier * this.applyElementalReaction(attacker, unit, skill)
+        );
+        
+        this.logAction(
+          attacker, 
+          unit, 
+          'skill', 
+          damage, 
+          `${attacker.name} 使用技能 ${skill.name} 对 ${unit.name} 造成 ${damage} 点伤害`,
+          skill.id
+        );
+        
+        this.dealDamage(attacker, unit, damage, true);
+        this.advanceCombo(attacker, unit);
+      }
+      
+      // 施法者自身的增益只结算一次
+      if (skill.effects && skill.effects.length > 0) {
+        this.applySkillEffects(skill.effects, attacker, unit, skill.id, index === 0);
+      }
+      
+      if (unit.currentHP <= 0) {
+        this.defeatUnit(attacker, unit, 'skill');
+      }
+    });
+  }
+
+  // 按技能的目标类型与范围解析受影响的单位，multiplier 为连锁弹射的衰减倍率
+  private getSkillTargets(caster: Unit, primary: Unit, skill: Skill): { unit: Unit; multiplier: number }[] {
+    const targetType = skill.targetType ?? 'enemy';
+    if (targetType === 'self') return [{ unit: caster, multiplier: 1 }];
+    
+    const pool = targetType === 'ally' 
+      ? [caster, ...this.getAllyTargets(caster)]
+      : targetType === 'all'
+        ? [...this.state.teams.alpha, ...this.state.teams.beta].filter(unit => unit !== caster && unit.currentHP > 0)
+        : this.getValidTargets(caster);
+    const single = [{ unit: primary, multiplier: 1 }];
+    
+    switch (skill.shape ?? 'single') {
+      case 'all':
+        return pool.map(unit => ({ unit, multiplier: 1 }));
+        
+      case 'row':
+        return pool
+          .filter(unit => unit.position && primary.position && unit.position.y === primary.position.y)
+          .map(unit => ({ unit, multiplier: 1 }));
+          
+      case 'column':
+        return pool
+          .filter(unit => unit.position && primary.position && unit.position.x === primary.position.x)
+          .map(unit => ({ unit, multiplier: 1 }));
+          
+      case 'radius': {
+        const radius = skill.radius ?? DEFAULT_SKILL_RADIUS;
+        return pool
+          .filter(unit => this.getDistance(primary, unit) <= radius)
+          .map(unit => ({ unit, multiplier: 1 }));
+      }
+        
+      case 'chain': {
+        const falloff = skill.chainFalloff ?? DEFAULT_CHAIN_FALLOFF;
+        const chain = single;
+        let current = primary;
+        
+        for (let i = 1; i <= (skill.chainCount ?? DEFAULT_CHAIN_COUNT); i++) {
+          const remaining = pool.filter(unit => !chain.some(hit => hit.unit === unit));
+          if (remaining.length === 0) break;
+          
+          current = remaining.reduce((nearest, unit) => 
+            this.getDistance(current, unit) < this.getDistance(current, nearest) ? unit : nearest
+          );
+          chain.push({ unit: current, multiplier: Math.pow(falloff, i) });
+        }
+        return chain;
+      }
+        
+      default:
+        return single;
     }
   }
 
   performDefend(unit: Unit): void {
-    unit.status = 'defending';
-    const defenseBoost = Math.floor(unit.defense * 0.5);
-    unit.defense += defenseBoost;
+    const defenseBoost = Math.floor((this.baseStats[unit.id]?.defense ?? unit.defense) * 0.5);
+    
+    this.addBuff(unit, {
+      id: `defend-${unit.id}`,
+      name: DEFEND_BUFF_NAME,
+      type: 'positive',
+      source: unit.id,
+      power: defenseBoost,
+      duration: DEFEND_DURATION_ROUNDS,
+      stackable: false,
+      effects: { defense: defenseBoost }
+    });
     
     this.logAction(
       unit, 
@@ -266,23 +1286,12 @@ export class BattleSystem {
       defenseBoost, 
       `${unit.name} 进入防御姿态，防御力提升 ${defenseBoost}`
     );
-    
-    setTimeout(() => {
-      if (unit.status === 'defending') {
-        unit.defense -= defenseBoost;
-        unit.status = 'idle';
-      }
-    }, 0);
   }
 
   performHeal(healer: Unit, target: Unit): void {
-    const healAmount = Math.floor(healer.magicPower * 1.2);
-    const oldHP = target.currentHP;
+    const actualHeal = this.restoreHealth(healer, target, healer.magicPower * 1.2);
     
-    target.currentHP = Math.min(target.maxHP, target.currentHP + healAmount);
-    const actualHeal = target.currentHP - oldHP;
-    
-    healer.currentMana -= 30;
+    healer.currentMana -= HEAL_MANA_COST;
     
     this.logAction(
       healer, 
@@ -293,99 +1302,335 @@ export class BattleSystem {
     );
   }
 
+  // 恢复生命值 (受治疗效率与目标所站地形的治疗修正)，返回实际恢复量
+  private restoreHealth(healer: Unit, target: Unit, amount: number): number {
+    const healAmount = Math.floor(
+      amount * this.balanceParameters.healingEfficiency * (this.getTileEffect(target).healing ?? 1)
+    );
+    const oldHP = target.currentHP;
+    
+    target.currentHP = Math.min(target.maxHP, target.currentHP + healAmount);
+    const actualHeal = target.currentHP - oldHP;
+    this.getUnitStatistics(healer).healingDone += actualHeal;
+    
+    return actualHeal;
+  }
+
+  // 增益行动的效果由施法者订阅的 onBuff 触发器决定，未订阅时提升目标速度
   performBuff(caster: Unit, target: Unit): void {
-    let buffAmount = 0;
-    let buffType = '';
-    
-    if (["Merchant", "商人"].includes(caster.type)) {
-      buffAmount = Math.floor(target.attack * 0.2);
-      target.attack += buffAmount;
-      buffType = '攻击力';
-    } else if (["Priest", "牧师"].includes(caster.type)) {
-      buffAmount = Math.floor(target.defense * 0.2);
-      target.defense += buffAmount;
-      buffType = '防御力';
-    } else {
-      buffAmount = Math.floor(target.speed * 0.2);
-      target.speed += buffAmount;
-      buffType = '速度';
-    }
+    caster.currentMana -= BUFF_MANA_COST;
     
-    caster.currentMana -= 20;
+    if (this.triggers.getTriggers(caster.id, 'onBuff').length > 0) {
+      this.emit('onBuff', caster, target);
+      return;
+    }
     
+    const buffAmount = this.applyStatBuff(caster, target, 'speed', 0.2, DEFAULT_BUFF_DURATION_ROUNDS);
     this.logAction(
       caster, 
       target, 
       'buff', 
       buffAmount, 
-      `${caster.name} 增强了 ${target.name} 的${buffType}，提升 ${buffAmount} 点`
+      `${caster.name} 增强了 ${target.name} 的${STAT_LABELS.speed}，提升 ${buffAmount} 点，持续 ${DEFAULT_BUFF_DURATION_ROUNDS} 回合`
     );
   }
 
-  calculateDamage(attacker: Unit, defender: Unit): number {
-    const attackPower = attacker.attack;
-    const defensePower = defender.defense;
-    const penetration = Math.max(0, attackPower * 0.1);
+  // 按基础属性的比例施加增益 (ratio > 0) 或减益 (ratio < 0)，返回属性变化量的绝对值
+  private applyStatBuff(source: Unit, target: Unit, stat: BuffableStat, ratio: number, duration: number): number {
+    const baseValue = this.baseStats[target.id]?.[stat] ?? target[stat];
+    const amount = FLAT_RATIO_STATS.includes(stat)
+      ? Math.abs(ratio)
+      : stat === 'critRate' || stat === 'critDamage'
+        ? baseValue * Math.abs(ratio)
+        : Math.floor(baseValue * Math.abs(ratio));
+    const positive = ratio > 0;
+    
+    this.addBuff(target, {
+      id: `${positive ? 'buff' : 'debuff'}-${stat}-${source.id}`,
+      name: `${STAT_LABELS[stat]}${positive ? '增益' : '减益'}`,
+      type: positive ? 'positive' : 'negative',
+      source: source.id,
+      power: amount,
+      duration,
+      stackable: false,
+      effects: { [stat]: positive ? amount : -amount }
+    });
+    
+    return amount;
+  }
+
+  // 元素反应: 目标身上附着其他元素且配置了对应组合时触发反应并消耗附着，返回伤害倍率；
+  // 未触发反应时为目标附着技能元素
+  private applyElementalReaction(caster: Unit, target: Unit, skill: Skill): number {
+    if (!this.advancedCombat || !this.skillSynergy || !skill.element) return 1;
+    
+    const auras = target.elementAuras ?? (target.elementAuras = []);
+    const reactions = this.skillSynergy.elementalReactions;
+    
+    for (const aura of auras) {
+      if (aura.element === skill.element) continue;
+      
+      const key = [`${aura.element}+${skill.element}`, `${skill.element}+${aura.element}`]
+        .find(combination => reactions[combination]);
+      if (!key) continue;
+      
+      const reaction = reactions[key];
+      target.elementAuras = auras.filter(a => a !== aura);
+      this.reactionCounts[key] = (this.reactionCounts[key] ?? 0) + 1;
+      
+      this.logAction(
+        caster, 
+        target, 
+        'reaction', 
+        reaction.multiplier, 
+        `${caster.name} 的 ${skill.name} 与 ${target.name} 身上的${aura.element}元素触发 ${reaction.name}，伤害 x${reaction.multiplier}`,
+        skill.id,
+        { reaction: key }
+      );
+      
+      if (reaction.effectDuration > 0) {
+        const tickDamage = Math.max(1, Math.floor((skill.damage + caster.magicPower) * REACTION_LINGERING_RATIO));
+        this.addBuff(target, {
+          id: `reaction-${key}-${caster.id}`,
+          name: reaction.name,
+          type: 'negative',
+          source: caster.id,
+          power: tickDamage,
+          duration: reaction.effectDuration,
+          stackable: false,
+          effects: {},
+          tickDamage
+        });
+      }
+      
+      return reaction.multiplier;
+    }
     
-    let terrainModifier = 1.0;
-    if (this.state.terrain.effects[attacker.type]) {
-      terrainModifier += this.state.terrain.effects[attacker.type];
+    const existing = auras.find(aura => aura.element === skill.element);
+    if (existing) {
+      existing.remainingRounds = ELEMENT_AURA_ROUNDS;
+    } else {
+      auras.push({ element: skill.element, sourceId: caster.id, remainingRounds: ELEMENT_AURA_ROUNDS });
     }
     
-    const baseDamage = (attackPower * terrainModifier) - (defensePower - penetration);
+    return 1;
+  }
+
+  // 物理伤害: 防御按 physicalDefense 系数折算为减伤比例
+  calculateDamage(attacker: Unit, defender: Unit): number {
+    const attackPower = attacker.attack * this.getTerrainModifier(attacker) * this.getEcosystemModifier(attacker, defender);
+    const baseDamage = this.damageFormula.apply(
+      attackPower, defender.defense, this.balanceParameters.physicalDefense, 'physical'
+    );
     
     return Math.max(1, Math.floor(baseDamage));
   }
 
-  calculateSkillDamage(attacker: Unit, defender: Unit, skill: any): number {
-    const magicPower = attacker.magicPower;
-    const resistance = defender.magicResistance;
-    const penetration = Math.max(0, magicPower * 0.15);
+  // 技能伤害: 魔抗按 magicResistance 系数由当前伤害公式折算
+  calculateSkillDamage(attacker: Unit, defender: Unit, skill: Skill): number {
+    const skillPower = (skill.damage + attacker.magicPower) * this.getTerrainModifier(attacker) * 
+      this.getEcosystemModifier(attacker, defender);
+    const baseDamage = this.damageFormula.apply(
+      skillPower, defender.magicResistance, this.balanceParameters.magicResistance, 'magic'
+    );
     
-    let terrainModifier = 1.0;
-    if (this.state.terrain.effects[attacker.type]) {
-      terrainModifier += this.state.terrain.effects[attacker.type];
-    }
+    return Math.max(5, Math.floor(baseDamage));
+  }
+
+  // 切换伤害减免公式 (内置公式ID或自定义实现)
+  setDamageFormula(formula: DamageFormulaId | DamageFormula): void {
+    this.damageFormula = typeof formula === 'string' ? getDamageFormula(formula) : formula;
+  }
+
+  getDamageFormula(): DamageFormula {
+    return this.damageFormula;
+  }
+
+  // 所站格子的地形: 职业地形加成 (中文单位类型按英文别名查找) × 地形伤害修正
+  private getTerrainModifier(unit: Unit): number {
+    const tileTerrain = this.getTileTerrain(unit);
+    if (!tileTerrain) return 1.0;
+    
+    const affinities = this.getTerrainEffects(tileTerrain);
+    const affinity = affinities[unit.type] ?? affinities[UNIT_TYPE_ALIASES[unit.type]] ?? 0;
+    const environmentFactor = this.unitEcosystem?.environmentalFactors[tileTerrain]?.[unit.type] ?? 0;
+    return (1 + affinity) * (1 + environmentFactor) * (calculateTerrainImpact(tileTerrain).damageModifier ?? 1);
+  }
+
+  // 生态链伤害修正: 克制系数 × 连击系数
+  private getEcosystemModifier(attacker: Unit, defender: Unit): number {
+    if (!this.unitEcosystem) return 1;
     
-    const baseDamage = ((skill.damage + magicPower) * terrainModifier) - (resistance - penetration);
+    const { counterRelationships, counterMultipliers } = this.unitEcosystem;
+    const counters = counterRelationships[attacker.type]?.includes(defender.type);
+    const counterMultiplier = counters ? counterMultipliers[attacker.type] ?? DEFAULT_COUNTER_MULTIPLIER : 1;
     
-    return Math.max(5, Math.floor(baseDamage));
+    return counterMultiplier * this.getComboMultiplier(attacker, defender);
+  }
+
+  // 连续攻击同一目标时每层连击加成按 (1 - decay) 递减: 1 + base × Σ(1 - decay)^k
+  private getComboMultiplier(attacker: Unit, defender: Unit): number {
+    const combo = this.comboStacks[attacker.id];
+    if (!this.unitEcosystem || !combo || combo.targetId !== defender.id) return 1;
+    
+    const { base, decay } = this.unitEcosystem.comboMultipliers;
+    let bonus = 0;
+    for (let k = 0; k < combo.stacks; k++) {
+      bonus += base * Math.pow(1 - decay, k);
+    }
+    return 1 + bonus;
+  }
+
+  // 命中后叠加连击层数，切换目标时重置
+  private advanceCombo(attacker: Unit, defender: Unit): void {
+    if (!this.unitEcosystem) return;
+    
+    const combo = this.comboStacks[attacker.id];
+    const maxStack = this.unitEcosystem.comboMultipliers.maxStack;
+    this.comboStacks[attacker.id] = combo && combo.targetId === defender.id
+      ? { targetId: defender.id, stacks: Math.min(maxStack, combo.stacks + 1) }
+      : { targetId: defender.id, stacks: Math.min(maxStack, 1) };
   }
 
-  applySkillEffects(effects: SkillEffect[], caster: Unit, target: Unit): void {
+  // buff 效果作用于友方目标；敌方技能的 buff 作用于施法者，仅在 applyCasterBuffs 时结算
+  applySkillEffects(
+    effects: SkillEffect[], 
+    caster: Unit, 
+    target: Unit, 
+    skillId: string = 'skill', 
+    applyCasterBuffs: boolean = true
+  ): void {
     effects.forEach(effect => {
-      if (effect.chance && Math.random() > effect.chance) {
+      if (effect.chance && this.rng.next() > effect.chance) {
         return;
       }
       
       switch (effect.type) {
         case 'stun':
-          if (target.status !== 'dead') {
-            target.status = 'stunned';
+          if (target.currentHP > 0) {
+            const stunActions = effect.duration ?? DEFAULT_STUN_ACTIONS;
+            this.addStatusEffect(target, {
+              kind: 'stun',
+              sourceId: caster.id,
+              remainingActions: stunActions
+            });
             this.logAction(
               caster, 
               target, 
               'buff', 
               0, 
-              `${target.name} 被眩晕，下回合无法行动`
+              stunActions > 1
+                ? `${target.name} 被眩晕，接下来 ${stunActions} 次行动无法进行`
+                : `${target.name} 被眩晕，下回合无法行动`
             );
           }
           break;
           
-        case 'debuff':
-          const statToDebuff = ['attack', 'defense', 'speed'][Math.floor(Math.random() * 3)];
-          const debuffAmount = Math.floor((target as any)[statToDebuff] * effect.value);
-          (target as any)[statToDebuff] -= debuffAmount;
+        case 'debuff': {
+          const statToDebuff = effect.stat 
+            ?? (['attack', 'defense', 'speed'] as const)[Math.floor(this.rng.next() * 3)];
+          const debuffRounds = effect.duration ?? DEFAULT_BUFF_DURATION_ROUNDS;
+          const debuffAmount = this.applyStatBuff(caster, target, statToDebuff, -effect.value, debuffRounds);
           
           this.logAction(
             caster, 
             target, 
             'buff', 
             -debuffAmount, 
-            `${target.name} 的${statToDebuff === 'attack' ? '攻击力' : 
-              statToDebuff === 'defense' ? '防御力' : '速度'}减少了 ${debuffAmount}`
+            `${target.name} 的${STAT_LABELS[statToDebuff]}减少了 ${formatStatAmount(statToDebuff, debuffAmount)}，持续 ${debuffRounds} 回合`
+          );
+          break;
+        }
+          
+        case 'buff':
+        case 'lifesteal':
+        case 'thorns': {
+          const buffTarget = target.team === caster.team ? target : caster;
+          if (buffTarget === caster && target !== caster && !applyCasterBuffs) break;
+          
+          const statToBuff = effect.type === 'buff' ? effect.stat ?? 'attack' : effect.type;
+          const buffRounds = effect.duration ?? DEFAULT_BUFF_DURATION_ROUNDS;
+          const buffAmount = this.applyStatBuff(caster, buffTarget, statToBuff, effect.value, buffRounds);
+          
+          this.logAction(
+            caster, 
+            buffTarget, 
+            'buff', 
+            buffAmount, 
+            `${buffTarget.name} 的${STAT_LABELS[statToBuff]}提升了 ${formatStatAmount(statToBuff, buffAmount)}，持续 ${buffRounds} 回合`
+          );
+          break;
+        }
+          
+        case 'shield': {
+          const shieldTarget = target.team === caster.team ? target : caster;
+          if (shieldTarget === caster && target !== caster && !applyCasterBuffs) break;
+          
+          const shieldAmount = Math.max(1, Math.floor(shieldTarget.maxHP * effect.value));
+          shieldTarget.shield = (shieldTarget.shield ?? 0) + shieldAmount;
+          
+          this.logAction(
+            caster, 
+            shieldTarget, 
+            'buff', 
+            shieldAmount, 
+            `${shieldTarget.name} 获得 ${shieldAmount} 点护盾`
+          );
+          break;
+        }
+          
+        case 'summon':
+          if (effect.summon && applyCasterBuffs) {
+            this.summonUnits(caster, effect.summon);
+          }
+          break;
+          
+        case 'taunt': {
+          if (target.team === caster.team || target.currentHP <= 0) break;
+          
+          const tauntRounds = effect.duration ?? DEFAULT_TAUNT_ROUNDS;
+          this.addStatusEffect(target, {
+            kind: 'taunt',
+            sourceId: caster.id,
+            remainingRounds: tauntRounds
+          });
+          
+          this.logAction(
+            caster, 
+            target, 
+            'buff', 
+            0, 
+            `${target.name} 被 ${caster.name} 嘲讽，${tauntRounds} 回合内只能攻击 ${caster.name}`
+          );
+          break;
+        }
+          
+        case 'dot': {
+          if (target.currentHP <= 0) break;
+          
+          const tickDamage = Math.max(1, Math.floor(caster.magicPower * effect.value));
+          const dotRounds = effect.duration ?? DEFAULT_BUFF_DURATION_ROUNDS;
+          this.addBuff(target, {
+            id: `dot-${skillId}-${caster.id}`,
+            name: '持续伤害',
+            type: 'negative',
+            source: caster.id,
+            power: tickDamage,
+            duration: dotRounds,
+            stackable: false,
+            effects: {},
+            tickDamage
+          });
+          
+          this.logAction(
+            caster, 
+            target, 
+            'buff', 
+            0, 
+            `${target.name} 受到持续伤害效果，每回合 ${tickDamage} 点，持续 ${dotRounds} 回合`
           );
           break;
+        }
           
         default:
           break;
@@ -397,12 +1642,24 @@ export class BattleSystem {
     const allUnits = [...this.state.teams.alpha, ...this.state.teams.beta];
     allUnits.forEach(unit => {
       if (unit.currentHP > 0) {
-        const regenAmount = Math.floor(unit.maxMana * 0.1);
-        unit.currentMana = Math.min(unit.maxMana, unit.currentMana + regenAmount);
+        const regenAmount = Math.floor(unit.maxMana * 0.1 * (this.getTileEffect(unit).manaRegen ?? 1));
+        this.gainMana(unit, regenAmount);
       }
     });
   }
 
+  // 恢复法力 (不超过上限)，回满时发出 manaFull 事件
+  private gainMana(unit: Unit, amount: number): void {
+    if (unit.maxMana === undefined) return;
+    
+    const wasFull = unit.currentMana >= unit.maxMana;
+    unit.currentMana = Math.min(unit.maxMana, unit.currentMana + amount);
+    
+    if (!wasFull && unit.maxMana > 0 && unit.currentMana >= unit.maxMana) {
+      this.emit('manaFull', unit);
+    }
+  }
+
   reduceCooldowns(unit: Unit): void {
     unit.skills?.forEach(skill => {
       if (skill.currentCooldown > 0) {
@@ -411,42 +1668,27 @@ export class BattleSystem {
     });
   }
 
+  // 站在灼烧地形上的单位每回合受到伤害，地形伤害不会致死
   applyOverTimeEffects(): void {
     const allUnits = [...this.state.teams.alpha, ...this.state.teams.beta];
     
-    if (this.state.terrain.type === 'fire') {
-      allUnits.forEach(unit => {
-        if (unit.currentHP > 0) {
-          const burnDamage = Math.floor(unit.maxHP * 0.05);
-          unit.currentHP = Math.max(1, unit.currentHP - burnDamage);
-          
-          this.logAction(
-            unit, 
-            unit, 
-            'buff', 
-            -burnDamage, 
-            `${unit.name} 受到火焰地形伤害 ${burnDamage}`
-          );
-        }
-      });
-    }
-  }
-
-  applyTerrainEffects(unit: Unit): void {
-    if (!this.state.environmentEffects) return;
-    
-    if (this.state.terrain.type === 'fire' && ["Mage", "法师"].includes(unit.type)) {
-      const burnDamage = Math.floor(unit.maxHP * 0.05);
-      unit.currentHP = Math.max(1, unit.currentHP - burnDamage);
+    allUnits.forEach(unit => {
+      if (unit.currentHP <= 0) return;
+      
+      const burnDamage = Math.min(this.getTileEffect(unit).burnDamage ?? 0, unit.currentHP - 1);
+      if (burnDamage <= 0) return;
+      
+      unit.currentHP -= burnDamage;
+      this.getUnitStatistics(unit).damageTaken += burnDamage;
       
       this.logAction(
         unit, 
         unit, 
         'buff', 
         -burnDamage, 
-        `${unit.name} 受到火焰地形伤害 ${burnDamage}`
+        `${unit.name} 受到${TERRAIN_LABELS[this.getTileTerrain(unit)!]}地形伤害 ${burnDamage}`
       );
-    }
+    });
   }
 
   getTerrainEffects(terrainType: TerrainType): Record<string, number> {
@@ -480,10 +1722,264 @@ export class BattleSystem {
       type: terrainType,
       effects: this.getTerrainEffects(terrainType)
     };
+    this.generateTerrainMap(terrainType);
   }
   
+  // 日志内部按时间顺序存储，对外按最新在前返回
   getBattleLog(): BattleLogEntry[] {
-    return [...this.state.log];
+    return [...this.state.log].reverse();
+  }
+
+  // 获取所有单位的伤害/治疗统计 (按单位ID)
+  getStatistics(): Record<string, UnitBattleStatistics> {
+    return JSON.parse(JSON.stringify(this.unitStatistics));
+  }
+
+  private getUnitStatistics(unit: Unit): UnitBattleStatistics {
+    if (!this.unitStatistics[unit.id]) {
+      this.unitStatistics[unit.id] = { damageDealt: 0, damageTaken: 0, healingDone: 0 };
+    }
+    return this.unitStatistics[unit.id];
+  }
+
+  /**
+   * 伤害结算顺序: 护盾吸收 → 扣除生命 → 攻击者吸血 → 目标反伤。
+   * 只有直接伤害 (普攻/技能) 触发吸血与反伤，反伤伤害不会再次触发。返回实际扣除的生命值。
+   */
+  private dealDamage(source: Unit, target: Unit, damage: number, direct: boolean): number {
+    let remaining = damage;
+    
+    if (target.shield && target.shield > 0 && remaining > 0) {
+      const absorbed = Math.min(target.shield, remaining);
+      target.shield -= absorbed;
+      remaining -= absorbed;
+      this.logAction(
+        source, 
+        target, 
+        'buff', 
+        -absorbed, 
+        target.shield > 0
+          ? `${target.name} 的护盾吸收了 ${absorbed} 点伤害`
+          : `${target.name} 的护盾吸收了 ${absorbed} 点伤害后破碎`
+      );
+    }
+    
+    const previousHP = target.currentHP;
+    target.currentHP = Math.max(0, target.currentHP - remaining);
+    if (source !== target) {
+      this.recordDamage(source, target, remaining);
+    } else {
+      this.getUnitStatistics(target).damageTaken += remaining;
+    }
+    
+    if (remaining > 0) {
+      if (this.state.combatMode === 'realtime' && target.currentHP > 0) {
+        this.gainMana(target, Math.min(MAX_MANA_PER_HIT, Math.floor(remaining * MANA_PER_DAMAGE_TAKEN)));
+      }
+      this.emit('afterDamage', target, source, { amount: remaining });
+      if (target.currentHP > 0) {
+        this.emit('hpBelowThreshold', target, source, { amount: remaining, previousHP });
+      }
+    }
+    
+    if (!direct || source === target) return remaining;
+    
+    if (source.lifesteal && source.currentHP > 0 && remaining > 0) {
+      const healed = this.restoreHealth(source, source, remaining * source.lifesteal);
+      if (healed > 0) {
+        this.logAction(source, source, 'heal', healed, `${source.name} 吸血恢复 ${healed} 点生命值`);
+      }
+    }
+    
+    const reflected = Math.floor(damage * (target.thorns ?? 0));
+    if (reflected > 0 && source.currentHP > 0) {
+      // 反伤单独记录为 reflect，统计攻击次数时不计入
+      this.logAction(target, source, 'reflect', reflected, `${target.name} 反弹 ${reflected} 点伤害给 ${source.name}`);
+      this.dealDamage(target, source, reflected, false);
+      
+      if (source.currentHP <= 0) {
+        this.defeatUnit(target, source, 'reflect');
+      }
+    }
+    
+    return remaining;
+  }
+
+  // 每队同时存活的召唤物上限
+  setSummonLimit(limit: number): void {
+    this.summonLimit = Math.max(0, Math.floor(limit));
+  }
+
+  // 按模板在召唤者附近 (或指定位置) 生成单位；新单位在本回合行动顺序确定后加入，下回合开始行动
+  private summonUnits(summoner: Unit, template: SummonTemplate, origin?: GridPosition): Unit[] {
+    const team = this.state.teams[summoner.team];
+    const spawned: Unit[] = [];
+    
+    for (let i = 0; i < (template.count ?? 1); i++) {
+      if (team.filter(unit => unit.summoned && unit.currentHP > 0).length >= this.summonLimit) {
+        this.logAction(summoner, summoner, 'summon', 0, `${summoner.name} 的召唤物数量已达上限`);
+        break;
+      }
+      
+      const position = this.findFreeTile(origin ?? summoner.position);
+      if (!position) break;
+      
+      const unit = this.createSummon(summoner, template, position);
+      team.push(unit);
+      this.registerUnit(unit);
+      this.subscribeTriggers(unit);
+      spawned.push(unit);
+      this.logAction(summoner, unit, 'summon', 0, `${summoner.name} 召唤了 ${unit.name}`);
+    }
+    
+    return spawned;
+  }
+
+  // 召唤物属性按召唤者的基础属性 (不含buff) 缩放
+  private createSummon(summoner: Unit, template: SummonTemplate, position: GridPosition): Unit {
+    const base = this.baseStats[summoner.id];
+    const scale = (value: number) => Math.max(1, Math.floor(value * template.statScale));
+    const maxHP = scale(summoner.maxHP);
+    
+    this.summonCount++;
+    return {
+      id: `${summoner.id}-summon-${this.summonCount}`,
+      name: template.name,
+      type: template.type,
+      level: summoner.level,
+      attack: scale(base?.attack ?? summoner.attack),
+      defense: scale(base?.defense ?? summoner.defense),
+      magicPower: scale(base?.magicPower ?? summoner.magicPower),
+      magicResistance: scale(base?.magicResistance ?? summoner.magicResistance),
+      speed: scale(base?.speed ?? summoner.speed),
+      maxHP,
+      currentHP: maxHP,
+      maxMana: summoner.maxMana,
+      currentMana: 0,
+      critRate: summoner.critRate,
+      critDamage: summoner.critDamage,
+      ...JSON.parse(JSON.stringify(template.overrides ?? {})),
+      team: summoner.team,
+      position: { ...position },
+      status: 'idle',
+      statusEffects: [],
+      summoned: true,
+      summonerId: summoner.id
+    };
+  }
+
+  // 从起点向外搜索最近的空闲格子
+  private findFreeTile(
+    origin?: GridPosition, 
+    isOccupied: (position: GridPosition) => boolean = position => this.isTileOccupied(position)
+  ): GridPosition | null {
+    if (!origin) return null;
+    
+    const visited = new Set<string>([`${origin.x},${origin.y}`]);
+    const queue: GridPosition[] = [origin];
+    
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (!isOccupied(current)) return current;
+      
+      this.grid.getNeighbours(current).forEach(next => {
+        const key = `${next.x},${next.y}`;
+        if (!visited.has(key)) {
+          visited.add(key);
+          queue.push(next);
+        }
+      });
+    }
+    
+    return null;
+  }
+
+  // 按单位类型注册被动触发器，对之后开始的战斗生效
+  registerTypeTriggers(unitType: string, triggers: TriggerDefinition[]): void {
+    this.typeTriggers[unitType] = [...triggers];
+  }
+
+  // 替换全部单位类型触发器 (默认为 DEFAULT_UNIT_TYPE_TRIGGERS)
+  setTypeTriggers(triggers: Record<string, TriggerDefinition[]>): void {
+    this.typeTriggers = Object.fromEntries(
+      Object.entries(triggers).map(([unitType, list]) => [unitType, [...list]])
+    );
+  }
+
+  // 订阅所有战斗事件 (不影响战斗结算)，返回取消订阅函数
+  onCombatEvent(listener: CombatEventListener): () => void {
+    return this.triggers.subscribe(listener);
+  }
+
+  // 本场战斗各触发器的触发次数 (key 为 "单位ID:触发器ID")
+  getTriggerCounts(): Record<string, number> {
+    return this.triggers.getFireCounts();
+  }
+
+  private subscribeTriggers(unit: Unit): void {
+    [...(this.typeTriggers[unit.type] ?? []), ...(unit.triggers ?? [])].forEach(trigger => {
+      this.triggers.register(unit.id, trigger);
+    });
+  }
+
+  // 广播战斗事件并结算事件主体订阅的触发器
+  private emit(
+    type: CombatEventType, 
+    unit: Unit, 
+    other?: Unit, 
+    details: Pick<CombatEvent, 'amount' | 'previousHP'> = {}
+  ): void {
+    const event: CombatEvent = { type, round: this.state.round, unit, other, ...details };
+    this.triggers.notify(event);
+    this.triggers.getTriggers(unit.id, type).forEach(trigger => this.fireTrigger(trigger, event));
+  }
+
+  private fireTrigger(trigger: TriggerDefinition, event: CombatEvent): void {
+    const owner = event.unit;
+    if (owner.currentHP <= 0 && event.type !== 'onDeath') return;
+    
+    if (event.type === 'hpBelowThreshold') {
+      const threshold = trigger.threshold ?? DEFAULT_HP_THRESHOLD;
+      const previousRatio = (event.previousHP ?? owner.currentHP) / owner.maxHP;
+      if (previousRatio < threshold || owner.currentHP / owner.maxHP >= threshold) return;
+    }
+    
+    if (trigger.chance !== undefined && this.rng.next() > trigger.chance) return;
+    if (!this.triggers.consume(owner.id, trigger)) return;
+    
+    // 另一方已阵亡或不存在时作用于自身，此时跳过负面效果
+    const target = event.other && event.other.currentHP > 0 ? event.other : owner;
+    const effects = target === owner
+      ? trigger.effects.filter(effect => !OFFENSIVE_EFFECTS.includes(effect.type))
+      : trigger.effects;
+    
+    this.logAction(owner, target, 'passive', 0, `${owner.name} 触发 ${trigger.name}`);
+    this.applySkillEffects(effects, owner, target, trigger.id);
+  }
+
+  private defeatUnit(killer: Unit, unit: Unit, action: ActionType): void {
+    unit.status = 'dead';
+    this.logAction(killer, unit, action, 0, `${unit.name} 已被击败`);
+    
+    this.emit('onDeath', unit, killer);
+    if (killer.team !== unit.team) {
+      this.emit('onKill', killer, unit);
+    }
+  }
+
+  // 结算阵亡单位的死亡触发 (如分裂)，每个单位只触发一次
+  private resolveDeathTriggers(): void {
+    [...this.state.teams.alpha, ...this.state.teams.beta].forEach(unit => {
+      if (unit.currentHP > 0 || !unit.onDeathSummon || this.resolvedDeaths.has(unit.id)) return;
+      
+      this.resolvedDeaths.add(unit.id);
+      this.summonUnits(unit, unit.onDeathSummon, unit.position);
+    });
+  }
+
+  private recordDamage(source: Unit, target: Unit, amount: number): void {
+    this.getUnitStatistics(source).damageDealt += amount;
+    this.getUnitStatistics(target).damageTaken += amount;
   }
 
   logAction(
@@ -492,11 +1988,14 @@ export class BattleSystem {
     action: ActionType, 
     value: number, 
     message: string,
-    skillId?: string
+    skillId?: string,
+    details: { path?: GridPosition[]; reaction?: string } = {}
   ): void {
+    if (!this.loggingEnabled) return;
+    
     const logEntry: BattleLogEntry = {
       round: this.state.round,
-      timestamp: Date.now(),
+      timestamp: this.getBattleTimeMs(),
       actorId: actor.id,
       action,
       targetId: target.id,
@@ -504,8 +2003,24 @@ export class BattleSystem {
       message,
       skillId
     };
+    if (details.path) {
+      logEntry.path = details.path.map(p => ({ ...p }));
+    }
+    if (details.reaction) {
+      logEntry.reaction = details.reaction;
+    }
+    if (this.state.elapsedTime !== undefined) {
+      logEntry.time = this.state.elapsedTime;
+    }
     
-    this.state.log.unshift(logEntry);
+    this.state.log.push(logEntry);
+  }
+
+  // 日志时间戳为战斗内时间 (毫秒)，不依赖系统时钟以保证相同种子的日志一致：
+  // 连续时间模式使用已经过的战斗时间，回合制按每回合对应的战斗时间折算
+  private getBattleTimeMs(): number {
+    const seconds = this.state.elapsedTime ?? this.state.round * REALTIME_ROUND_SECONDS;
+    return Math.round(seconds * 1000);
   }
 
   checkBattleEnd(): boolean {
@@ -514,7 +2029,8 @@ export class BattleSystem {
 
     if (!alphaAlive || !betaAlive) {
       this.state.status = 'completed';
-      this.state.winner = alphaAlive ? 'alpha' : 'beta';
+      // 同一次行动中双方同归于尽 (反伤、持续伤害等) 判为平局
+      this.state.winner = alphaAlive ? 'alpha' : betaAlive ? 'beta' : 'draw';
       return true;
     }
     
@@ -522,6 +2038,26 @@ export class BattleSystem {
   }
 
   getState(): BattleState {
-    return JSON.parse(JSON.stringify(this.state));
+    const snapshot: BattleState = JSON.parse(JSON.stringify(this.state));
+    snapshot.log.reverse();
+    return snapshot;
+  }
+
+  // 轻量状态查询，避免批量模拟时深拷贝整个状态
+  isCompleted(): boolean {
+    return this.state.status === 'completed';
+  }
+
+  getRound(): number {
+    return this.state.round;
+  }
+
+  getWinner(): BattleState['winner'] {
+    return this.state.winner;
+  }
+
+  // 只读访问当前队伍，调用方不应修改返回的单位
+  getTeams(): Readonly<BattleState['teams']> {
+    return this.state.teams;
   }
 }
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { validateBehaviorTree } from './BehaviorTree';
+
+describe('validateBehaviorTree', () => {
+  it('合法的行为树没有错误', () => {
+    expect(validateBehaviorTree({
+      type: 'selector',
+      children: [
+        { type: 'sequence', children: [{ type: 'condition', condition: 'selfHpBelow', value: 0.3 }, { type: 'action', action: 'defend' }] },
+        { type: 'action', action: 'attack', target: 'lowestHpEnemy' }
+      ]
+    })).toEqual([]);
+  });
+
+  it('拒绝原型链上的键作为条件或目标', () => {
+    expect(validateBehaviorTree({ type: 'condition', condition: 'toString' })).toEqual(['root: 未知条件 "toString"']);
+    expect(validateBehaviorTree({ type: 'action', action: 'attack', target: 'constructor' })).toEqual(['root: 未知目标 "constructor"']);
+  });
+
+  it('检查技能ID是否存在于单位技能中', () => {
+    const errors = validateBehaviorTree({ type: 'action', action: 'skill', skillId: 'missing' }, { skills: [] });
+    expect(errors).toHaveLength(1);
+  });
+});
@@ -0,0 +1,226 @@
+import { Unit, ActionType, BehaviorNode, BehaviorConditionType, BehaviorTargetSelector } from '@/types/battle';
+import { AIDecision, BattleView, UnitController, UnitAI, HEAL_MANA_COST, BUFF_MANA_COST } from './UnitAI';
+
+export const CONDITION_LABELS: Record<BehaviorConditionType, string> = {
+  selfHpBelow: '自身生命比例低于',
+  allyHpBelow: '任一队友生命比例低于',
+  enemyInRange: '有敌人在射程内',
+  skillReady: '技能可用',
+  manaAtLeast: '法力值不低于',
+  chance: '随机概率'
+};
+
+export const TARGET_LABELS: Record<BehaviorTargetSelector, string> = {
+  lowestHpEnemy: '生命最低的敌人',
+  nearestEnemy: '最近的敌人',
+  lowestHpAlly: '生命比例最低的友方',
+  self: '自身'
+};
+
+const BEHAVIOR_ACTIONS: ActionType[] = ['attack', 'skill', 'heal', 'buff', 'defend', 'move', 'retreat'];
+const RATIO_CONDITIONS: BehaviorConditionType[] = ['selfHpBelow', 'allyHpBelow', 'chance'];
+
+// 校验行为树结构，返回错误信息列表 (为空表示合法)；传入单位时同时检查技能ID是否存在
+export function validateBehaviorTree(node: unknown, unit?: Pick<Unit, 'skills'>, path = 'root'): string[] {
+  if (!node || typeof node !== 'object') {
+    return [`${path}: 节点必须是对象`];
+  }
+
+  const candidate = node as Record<string, unknown>;
+  const errors: string[] = [];
+
+  switch (candidate.type) {
+    case 'selector':
+    case 'sequence': {
+      const children = candidate.children;
+      if (!Array.isArray(children) || children.length === 0) {
+        errors.push(`${path}: ${candidate.type} 节点至少需要一个子节点`);
+        break;
+      }
+      children.forEach((child, index) => {
+        errors.push(...validateBehaviorTree(child, unit, `${path}.children[${index}]`));
+      });
+      break;
+    }
+
+    case 'condition': {
+      const condition = candidate.condition as BehaviorConditionType;
+      if (!Object.prototype.hasOwnProperty.call(CONDITION_LABELS, condition)) {
+        errors.push(`${path}: 未知条件 "${String(candidate.condition)}"`);
+        break;
+      }
+      if (RATIO_CONDITIONS.includes(condition) && !isNumberInRange(candidate.value, 0, 1)) {
+        errors.push(`${path}: 条件 ${condition} 需要 0-1 之间的 value`);
+      }
+      if (condition === 'manaAtLeast' && !isNumberInRange(candidate.value, 0, Infinity)) {
+        errors.push(`${path}: 条件 manaAtLeast 需要非负的 value`);
+      }
+      if (condition === 'skillReady') {
+        errors.push(...validateSkillId(candidate.skillId, unit, path));
+      }
+      break;
+    }
+
+    case 'action': {
+      const action = candidate.action as ActionType;
+      if (!BEHAVIOR_ACTIONS.includes(action)) {
+        errors.push(`${path}: 不支持的行动 "${String(candidate.action)}"`);
+        break;
+      }
+      if (candidate.target !== undefined && !Object.prototype.hasOwnProperty.call(TARGET_LABELS, candidate.target)) {
+        errors.push(`${path}: 未知目标 "${String(candidate.target)}"`);
+      }
+      if (action === 'skill') {
+        errors.push(...validateSkillId(candidate.skillId, unit, path));
+      }
+      break;
+    }
+
+    default:
+      errors.push(`${path}: 未知节点类型 "${String(candidate.type)}"`);
+  }
+
+  return errors;
+}
+
+function isNumberInRange(value: unknown, min: number, max: number): boolean {
+  return typeof value === 'number' && !Number.isNaN(value) && value >= min && value <= max;
+}
+
+function validateSkillId(skillId: unknown, unit: Pick<Unit, 'skills'> | undefined, path: string): string[] {
+  if (skillId === undefined) return [];
+  if (typeof skillId !== 'string') return [`${path}: skillId 必须是字符串`];
+  if (unit && !unit.skills?.some(skill => skill.id === skillId)) {
+    return [`${path}: 单位没有技能 "${skillId}"`];
+  }
+  return [];
+}
+
+// 解析编辑器中的 JSON 文本；空文本表示不使用行为树
+export function parseBehaviorTree(
+  text: string,
+  unit?: Pick<Unit, 'skills'>
+): { tree?: BehaviorNode; errors: string[] } {
+  if (!text.trim()) return { errors: [] };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    return { errors: [`JSON 解析失败: ${(error as Error).message}`] };
+  }
+
+  const errors = validateBehaviorTree(parsed, unit);
+  return errors.length > 0 ? { errors } : { tree: parsed as BehaviorNode, errors };
+}
+
+interface NodeResult {
+  success: boolean;
+  decision?: AIDecision; // 到达行动节点时产生决策并结束本次求值
+}
+
+/**
+ * 行为树控制器 - 解释单位数据中的行为树；整棵树没有产生行动时退回默认 UnitAI
+ */
+export class BehaviorTreeController implements UnitController {
+  constructor(private tree: BehaviorNode, private fallback: UnitController = new UnitAI()) {}
+
+  decideAction(view: BattleView): AIDecision {
+    return this.evaluate(this.tree, view).decision ?? this.fallback.decideAction(view);
+  }
+
+  private evaluate(node: BehaviorNode, view: BattleView): NodeResult {
+    switch (node.type) {
+      case 'selector':
+        for (const child of node.children) {
+          const result = this.evaluate(child, view);
+          if (result.success) return result;
+        }
+        return { success: false };
+
+      case 'sequence':
+        for (const child of node.children) {
+          const result = this.evaluate(child, view);
+          if (!result.success || result.decision) return result;
+        }
+        return { success: true };
+
+      case 'condition':
+        return { success: this.checkCondition(node, view) };
+
+      case 'action':
+        return this.resolveAction(node, view);
+    }
+  }
+
+  private checkCondition(node: Extract<BehaviorNode, { type: 'condition' }>, view: BattleView): boolean {
+    const self = view.self;
+    const value = node.value ?? 0;
+
+    switch (node.condition) {
+      case 'selfHpBelow':
+        return self.currentHP / self.maxHP < value;
+      case 'allyHpBelow':
+        return view.allies.some(ally => ally.currentHP / ally.maxHP < value);
+      case 'enemyInRange':
+        return view.enemies.some(enemy => view.getDistance(self, enemy) <= view.getRange(self));
+      case 'skillReady':
+        return this.findReadySkill(view, node.skillId) !== undefined;
+      case 'manaAtLeast':
+        return (self.currentMana ?? 0) >= value;
+      case 'chance':
+        return view.random() < value;
+      default:
+        return false;
+    }
+  }
+
+  // 行动条件不满足 (法力不足、技能冷却、无目标) 时节点失败
+  private resolveAction(node: Extract<BehaviorNode, { type: 'action' }>, view: BattleView): NodeResult {
+    const mana = view.self.currentMana ?? 0;
+
+    if (node.action === 'skill' && !this.findReadySkill(view, node.skillId)) return { success: false };
+    if (node.action === 'heal' && mana < HEAL_MANA_COST) return { success: false };
+    if (node.action === 'buff' && mana < BUFF_MANA_COST) return { success: false };
+
+    const supportAction = node.action === 'heal' || node.action === 'buff';
+    const target = this.selectTarget(node.target ?? (supportAction ? 'lowestHpAlly' : 'lowestHpEnemy'), view);
+    if (!target) return { success: false };
+
+    return {
+      success: true,
+      decision: { action: node.action, targetId: target.id, skillId: node.skillId }
+    };
+  }
+
+  private findReadySkill(view: BattleView, skillId?: string) {
+    return view.self.skills?.find(skill =>
+      (!skillId || skill.id === skillId) &&
+      skill.currentCooldown === 0 &&
+      skill.manaCost <= (view.self.currentMana ?? 0)
+    );
+  }
+
+  private selectTarget(selector: BehaviorTargetSelector, view: BattleView): Readonly<Unit> | undefined {
+    const { self, enemies, allies } = view;
+
+    switch (selector) {
+      case 'self':
+        return self;
+      case 'lowestHpAlly':
+        return [self, ...allies].reduce((lowest, current) =>
+          current.currentHP / current.maxHP < lowest.currentHP / lowest.maxHP ? current : lowest
+        );
+      case 'nearestEnemy':
+        return enemies.length > 0
+          ? enemies.reduce((nearest, current) =>
+              view.getDistance(self, current) < view.getDistance(self, nearest) ? current : nearest)
+          : undefined;
+      case 'lowestHpEnemy':
+      default:
+        return enemies.length > 0
+          ? enemies.reduce((lowest, current) => current.currentHP < lowest.currentHP ? current : lowest)
+          : undefined;
+    }
+  }
+}
@@ -1,17 +1,8 @@
 
 // Buff系统实现
-export interface Buff {
-  id: string;
-  name: string;
-  type: "positive" | "negative";
-  source: string; // 来源ID
-  power: number;
-  duration: number;
-  stackable: boolean;
-  effects: {
-    [key: string]: number; // 影响的属性和数值
-  };
-}
+import { Buff } from '@/types/battle';
+
+export type { Buff };
 
 export class BuffStackManager {
   private buffs: Buff[] = [];
@@ -61,14 +52,16 @@ export class BuffStackManager {
     return modifiedStats;
   }
 
-  // 更新所有buff的持续时间
-  updateBuffs(): void {
+  // 更新所有buff的持续时间，返回本次过期的buff
+  updateBuffs(): Buff[] {
     // 减少所有buff的持续时间
     this.buffs.forEach(buff => {
       buff.duration -= 1;
     });
     
     // 移除已过期的buff
+    const expired = this.buffs.filter(buff => buff.duration <= 0);
     this.buffs = this.buffs.filter(buff => buff.duration > 0);
+    return expired;
   }
 }
@@ -0,0 +1,58 @@
+// 伤害减免公式: 将防御/魔抗与平衡参数中的对应系数折算为实际伤害
+
+export type DamageFormulaId = 'percentage' | 'diminishing' | 'flat';
+export type DamageKind = 'physical' | 'magic';
+
+export interface DamageFormula {
+  id: DamageFormulaId;
+  name: string;
+  description: string;
+  // 返回减免后的伤害 (未取整)；coefficient 为 physicalDefense 或 magicResistance 平衡参数
+  apply(rawDamage: number, defense: number, coefficient: number, kind: DamageKind): number;
+}
+
+// 百分比减伤上限，避免高防御单位完全免伤
+const MAX_DAMAGE_REDUCTION = 0.9;
+
+// 平减公式: 每点防御抵挡 系数 × FLAT_REDUCTION_SCALE 点伤害 (默认物理系数 0.035 时约为 1 点)，
+// 攻击方按原始伤害的一定比例穿透
+const FLAT_REDUCTION_SCALE = 1 / 0.035;
+const FLAT_PENETRATION: Record<DamageKind, number> = {
+  physical: 0.1,
+  magic: 0.15
+};
+
+export const DAMAGE_FORMULAS: Record<DamageFormulaId, DamageFormula> = {
+  percentage: {
+    id: 'percentage',
+    name: '百分比减伤',
+    description: '减伤比例 = 防御 × 系数，最高 90%',
+    apply: (rawDamage, defense, coefficient) =>
+      rawDamage * (1 - Math.min(MAX_DAMAGE_REDUCTION, Math.max(0, defense * coefficient)))
+  },
+  diminishing: {
+    id: 'diminishing',
+    name: '收益递减',
+    description: '减伤比例 = 防御 / (防御 + K)，K = 1 / 系数，低防御时与百分比减伤接近',
+    apply: (rawDamage, defense, coefficient) => {
+      if (defense <= 0 || coefficient <= 0) return rawDamage;
+      return rawDamage * (1 - defense / (defense + 1 / coefficient));
+    }
+  },
+  flat: {
+    id: 'flat',
+    name: '固定值减伤',
+    description: '伤害 = 原始伤害 - (防御 × 系数折算值 - 穿透)，穿透为原始伤害的 10% (魔法 15%)',
+    apply: (rawDamage, defense, coefficient, kind) => {
+      const blocked = defense * coefficient * FLAT_REDUCTION_SCALE - rawDamage * FLAT_PENETRATION[kind];
+      return rawDamage - Math.max(0, blocked);
+    }
+  }
+};
+
+export const DEFAULT_DAMAGE_FORMULA: DamageFormulaId = 'percentage';
+
+// 按ID获取公式，未知ID使用默认公式
+export function getDamageFormula(id?: string): DamageFormula {
+  return DAMAGE_FORMULAS[id as DamageFormulaId] ?? DAMAGE_FORMULAS[DEFAULT_DAMAGE_FORMULA];
+}
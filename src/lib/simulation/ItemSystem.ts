@@ -0,0 +1,89 @@
+// 装备系统: 将单位身上的装备、套装与适配系数折算为战斗属性修正
+import { Unit } from '@/types/battle';
+import { EquipmentSystem } from '@/types/balance';
+
+export type ItemRarity = EquipmentSystem['items'][string]['rarity'];
+
+export const ITEM_RARITY_LABELS: Record<ItemRarity, string> = {
+  common: '普通',
+  uncommon: '优秀',
+  rare: '稀有',
+  epic: '史诗',
+  legendary: '传说'
+};
+
+export const DEFAULT_ITEM_AFFINITY = 1;
+
+// 套装至少由两件装备组成，不足两件的套装不会激活
+export const MIN_SET_ITEMS = 2;
+
+// 已激活的套装
+export interface ActiveItemSet {
+  name: string;
+  requiredItems: string[];
+  holders: string[]; // 持有套装部件的单位ID
+  statModifiers: Record<string, number>;
+}
+
+// 一支队伍的装备结算结果
+export interface EquipmentBonuses {
+  unitModifiers: Record<string, Record<string, number>>; // 单位ID → 属性百分比修正
+  activeSets: ActiveItemSet[];
+}
+
+export function getItemAffinity(equipment: EquipmentSystem, unitType: string, itemId: string): number {
+  return equipment.equipmentAffinities[unitType]?.[itemId] ?? DEFAULT_ITEM_AFFINITY;
+}
+
+/**
+ * 结算一支队伍的装备加成:
+ * - 单件装备的属性修正乘以单位类型对该装备的适配系数
+ * - 队伍中集齐套装全部部件 (可分散在不同单位身上，至少两件) 时激活套装，
+ *   套装加成作用于持有部件的单位，并乘以其所持部件的平均适配系数
+ * 未定义的装备ID忽略。
+ */
+export function resolveEquipmentBonuses(units: Unit[], equipment: EquipmentSystem): EquipmentBonuses {
+  const unitModifiers: Record<string, Record<string, number>> = {};
+  const addModifier = (unitId: string, stat: string, value: number) => {
+    const modifiers = (unitModifiers[unitId] ??= {});
+    modifiers[stat] = (modifiers[stat] ?? 0) + value;
+  };
+
+  units.forEach(unit => {
+    getEquippedItems(unit, equipment).forEach(itemId => {
+      const affinity = getItemAffinity(equipment, unit.type, itemId);
+      Object.entries(equipment.items[itemId].statModifiers).forEach(([stat, value]) => {
+        addModifier(unit.id, stat, value * affinity);
+      });
+    });
+  });
+
+  const teamItems = new Set(units.flatMap(unit => getEquippedItems(unit, equipment)));
+  const activeSets: ActiveItemSet[] = [];
+
+  Object.entries(equipment.setCombinations).forEach(([name, set]) => {
+    if (set.requiredItems.length < MIN_SET_ITEMS || !set.requiredItems.every(itemId => teamItems.has(itemId))) return;
+
+    const holders = units.filter(unit => unit.items?.some(itemId => set.requiredItems.includes(itemId)));
+    holders.forEach(unit => {
+      const setItems = unit.items!.filter(itemId => set.requiredItems.includes(itemId));
+      const affinity = setItems.reduce((sum, itemId) => sum + getItemAffinity(equipment, unit.type, itemId), 0) / setItems.length;
+      Object.entries(set.bonusEffect.statModifiers).forEach(([stat, value]) => {
+        addModifier(unit.id, stat, value * affinity);
+      });
+    });
+
+    activeSets.push({
+      name,
+      requiredItems: [...set.requiredItems],
+      holders: holders.map(unit => unit.id),
+      statModifiers: { ...set.bonusEffect.statModifiers }
+    });
+  });
+
+  return { unitModifiers, activeSets };
+}
+
+function getEquippedItems(unit: Unit, equipment: EquipmentSystem): string[] {
+  return (unit.items ?? []).filter(itemId => equipment.items[itemId]);
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { Unit } from '@/types/battle';
+import { EconomyConfiguration } from '@/types/economy';
+import { MatchSimulator, MatchResult, MatchOptions } from './MatchSimulator';
+
+const createUnit = (id: string, type: string, attack: number, hp: number): Unit => ({
+  id, name: id, type, level: 1, attack, defense: 8, magicPower: 20, magicResistance: 8, speed: 10,
+  maxHP: hp, currentHP: hp, maxMana: 100, currentMana: 0, critRate: 0.1, critDamage: 1.5, team: 'alpha', skills: []
+});
+
+const UNITS = [
+  createUnit('w', '战士', 25, 400),
+  createUnit('m', '法师', 35, 250),
+  createUnit('a', '射手', 30, 280),
+  createUnit('k', '骑士', 18, 550),
+  createUnit('s', '刺客', 40, 220)
+];
+
+const ECONOMY: EconomyConfiguration = {
+  startingGold: 10,
+  unitCost: 3,
+  interestThresholds: [10, 20, 30, 40, 50],
+  interestCap: 5,
+  levelCosts: [4, 8, 12, 16, 24, 36, 56],
+  unitPoolSize: { common: 30, uncommon: 20, rare: 12, epic: 8, legendary: 5 },
+  itemPoolSize: {},
+  roundIncome: { base: 5, winBonus: 1, loseBonus: 1 },
+  sellingReturn: 0.7
+};
+
+const OPTIONS: MatchOptions = {
+  units: UNITS,
+  economy: ECONOMY,
+  playerCount: 4,
+  maxRounds: 12,
+  unitCosts: { w: 1, m: 2, a: 2, k: 3, s: 4 }
+};
+
+// 玩家单位的实例ID由 crypto.randomUUID 生成，比较结果时忽略
+const normalize = (result: MatchResult) => ({
+  ...result,
+  placements: result.placements.map(player => ({ ...player, units: player.units.map(unit => ({ ...unit, id: '' })) }))
+});
+
+describe('MatchSimulator', () => {
+  it('相同种子的对局结果完全相同', () => {
+    const first = new MatchSimulator().run({ ...OPTIONS, seed: 7 });
+    const second = new MatchSimulator().run({ ...OPTIONS, seed: 7 });
+
+    expect(first.seed).toBe(7);
+    expect(normalize(second)).toEqual(normalize(first));
+  });
+
+  it('同一个模拟器实例重复运行结果相同', () => {
+    const simulator = new MatchSimulator();
+    const first = simulator.run({ ...OPTIONS, seed: 11 });
+    const second = simulator.run({ ...OPTIONS, seed: 11 });
+
+    expect(normalize(second)).toEqual(normalize(first));
+  });
+
+  it('不同种子产生不同的对局', () => {
+    const first = new MatchSimulator().run({ ...OPTIONS, seed: 7 });
+    const second = new MatchSimulator().run({ ...OPTIONS, seed: 8 });
+
+    expect(JSON.stringify(second.history)).not.toBe(JSON.stringify(first.history));
+  });
+
+  it('名次连续且每位玩家只出现一次', () => {
+    const result = new MatchSimulator().run({ ...OPTIONS, seed: 3 });
+
+    expect(result.placements.map(player => player.placement)).toEqual([1, 2, 3, 4]);
+    expect(new Set(result.placements.map(player => player.playerId)).size).toBe(4);
+    expect(result.rounds).toBeLessThanOrEqual(12);
+  });
+});
+
+describe('MatchSimulator 平局', () => {
+  it('平局不扣除生命值，也不改变连胜/连败', () => {
+    // 没有收入时双方都无法上场单位，每场对战均为平局
+    const result = new MatchSimulator().run({
+      ...OPTIONS,
+      economy: { ...ECONOMY, startingGold: 0, roundIncome: { base: 0, winBonus: 1, loseBonus: 1 } },
+      maxRounds: 4,
+      seed: 5
+    });
+
+    result.history.forEach(round => {
+      round.fights.forEach(fight => {
+        expect(fight.winner).toBe('draw');
+        expect(fight.damage).toEqual({});
+      });
+    });
+    result.placements.forEach(player => expect(player.health).toBe(result.placements[0].health));
+    result.income.forEach(entry => expect(entry).toMatchObject({ result: 0, streak: 0 }));
+  });
+});
@@ -0,0 +1,430 @@
+// 自走棋对局模拟: 多名玩家依次经历 准备 → 战斗 → 购物 阶段，生命值归零即被淘汰
+import { Unit, TerrainType } from '@/types/battle';
+import { Player, PlayerUnit, PlayerArchetype, EconomyConfiguration, IncomeBreakdown } from '@/types/economy';
+import { EconomyManager } from '@/lib/economy/EconomyManager';
+import { PLAYER_ARCHETYPES, PlayerBehaviorSimulator } from '@/lib/economy/PlayerArchetypes';
+import { UnitPool } from '@/lib/economy/UnitPool';
+import { SeededRandom, generateSeed } from '@/lib/utils/SeededRandom';
+import { BattleSystem } from './BattleSystem';
+import { COPIES_PER_MERGE } from './StarSystem';
+
+export const DEFAULT_PLAYER_COUNT = 8;
+export const DEFAULT_PLAYER_HEALTH = 100;
+export const DEFAULT_BENCH_SIZE = 9;
+export const DEFAULT_ROUNDS_PER_STAGE = 6;
+
+// 失败方受到的基础伤害 (按阶段，超出部分沿用最后一项)，另加对方每个存活单位的星级
+export const DEFAULT_STAGE_DAMAGE = [0, 2, 5, 8, 10, 12, 17];
+
+const DEFAULT_UNIT_COST = 3;
+const DEFAULT_MATCH_ROUNDS = 50;
+const DEFAULT_BATTLE_ROUNDS = 20;
+const MAX_SHOP_ACTIONS = 10; // 每个购物阶段玩家原型决策次数上限
+
+// 对局配置
+export interface MatchOptions {
+  units: Unit[];                       // 商店中可出现的单位 (1 星属性)
+  economy: EconomyConfiguration;
+  playerCount?: number;
+  archetypes?: PlayerArchetype[];      // 按玩家序号循环分配，默认使用全部玩家原型
+  seed?: number;
+  startingHealth?: number;
+  benchSize?: number;                  // 备战席容量
+  maxRounds?: number;                  // 对局回合上限，达到后按剩余生命值排名
+  battleRounds?: number;               // 单场战斗回合上限
+  terrain?: TerrainType;               // 对战地形，默认平原
+  terrainVariety?: number;             // 随机地形格子的比例，默认 0
+  roundsPerStage?: number;
+  stageDamage?: number[];
+  unitCosts?: Record<string, number>;  // 单位ID → 费用 (1-5)，决定卡池档位，未配置时使用经济配置的 unitCost
+}
+
+// 单场对战结果；ghost 表示人数为奇数时与其他玩家阵容的镜像对战，镜像方不受伤害
+export interface MatchFight {
+  home: string;
+  away: string;
+  ghost: boolean;
+  winner: 'home' | 'away' | 'draw';
+  damage: Record<string, number>; // 玩家ID → 本场受到的伤害
+}
+
+export interface MatchRoundSummary {
+  round: number;
+  stage: number;
+  fights: MatchFight[];
+  eliminated: string[];
+  health: Record<string, number>; // 回合结束时各玩家生命值
+  events: string[];               // 本回合开始/结束的经济事件
+}
+
+export interface MatchPlayerResult {
+  playerId: string;
+  name: string;
+  archetype: PlayerArchetype;
+  placement: number;
+  health: number;
+  eliminatedRound?: number;
+  level: number;
+  gold: number;
+  units: PlayerUnit[];
+}
+
+export interface MatchResult {
+  seed: number;
+  rounds: number;
+  placements: MatchPlayerResult[]; // 按名次排序
+  poolRemaining: Record<number, number>; // 对局结束时卡池各费用档位剩余数量
+  income: IncomeBreakdown[];             // 每回合各玩家的收入明细
+  history: MatchRoundSummary[];
+}
+
+/**
+ * 对局模拟器 - 使用 EconomyManager 结算金币与共享卡池商店，使用 BattleSystem 进行玩家之间的战斗，
+ * 失败方按阶段与对方存活单位扣除生命值，直至只剩一名玩家
+ */
+export class MatchSimulator {
+  private battleSystem!: BattleSystem;
+  private economy!: EconomyManager;
+  private rng!: SeededRandom;
+  private catalog: Record<string, Unit> = {};
+  private pool!: UnitPool;
+  private health: Record<string, number> = {};
+  private placements: Record<string, { placement: number; round: number }> = {};
+
+  // 每局对局使用新的 BattleSystem
+  constructor(private createBattleSystem: () => BattleSystem = () => new BattleSystem()) {}
+
+  run(options: MatchOptions): MatchResult {
+    const {
+      units,
+      economy,
+      playerCount = DEFAULT_PLAYER_COUNT,
+      archetypes = Object.keys(PLAYER_ARCHETYPES) as PlayerArchetype[],
+      seed = generateSeed(),
+      startingHealth = DEFAULT_PLAYER_HEALTH,
+      maxRounds = DEFAULT_MATCH_ROUNDS,
+      roundsPerStage = DEFAULT_ROUNDS_PER_STAGE
+    } = options;
+
+    if (units.length === 0) {
+      throw new Error('对局至少需要一种可购买的单位');
+    }
+
+    this.rng = new SeededRandom(seed);
+    this.economy = new EconomyManager(economy, this.rng);
+    this.catalog = Object.fromEntries(units.map(unit => [unit.id, unit]));
+    this.pool = new UnitPool(
+      Object.fromEntries(units.map(unit => [
+        unit.id,
+        options.unitCosts?.[unit.id] ?? economy.unitCost ?? DEFAULT_UNIT_COST
+      ])),
+      economy,
+      this.rng
+    );
+    this.economy.setUnitPool(this.pool);
+    this.health = {};
+    this.placements = {};
+    this.battleSystem = this.createBattleSystem();
+    this.battleSystem.setLoggingEnabled(false);
+    this.battleSystem.setTerrainVariety(options.terrainVariety ?? 0);
+
+    for (let i = 0; i < playerCount; i++) {
+      const player: Player = {
+        id: `player-${i + 1}`,
+        name: `玩家${i + 1}`,
+        gold: economy.startingGold,
+        level: 1,
+        experience: 0,
+        units: [],
+        items: [],
+        archetype: archetypes[i % archetypes.length],
+        winStreak: 0,
+        loseStreak: 0,
+        rank: 0
+      };
+      this.economy.addPlayer(player);
+      this.health[player.id] = startingHealth;
+    }
+
+    const players = this.economy.getState().players;
+    const history: MatchRoundSummary[] = [];
+
+    // 开局购物: 用初始金币购买第一批单位
+    this.economy.refreshShops();
+    this.economy.setPhase('shopping');
+    players.forEach(player => this.shop(player, options));
+
+    let round = 0;
+    while (round < maxRounds && this.getAlivePlayers(players).length > 1) {
+      round++;
+      const stage = Math.ceil(round / roundsPerStage);
+
+      // 准备阶段: 发放收入与经验、刷新未锁定的商店并布置上场单位 (数量上限为玩家等级)
+      this.economy.startNewRound();
+      const alive = this.getAlivePlayers(players);
+      alive.forEach(player => this.deployBoard(player));
+
+      this.economy.setPhase('combat');
+      const fights = this.playCombatRound(alive, stage, options);
+      const eliminated = this.eliminatePlayers(alive, round);
+
+      this.economy.setPhase('shopping');
+      this.getAlivePlayers(players).forEach(player => this.shop(player, options));
+
+      history.push({
+        round,
+        stage,
+        fights,
+        eliminated,
+        health: { ...this.health },
+        events: this.economy.getRoundLog(round).map(entry => entry.message)
+      });
+    }
+
+    // 达到回合上限或决出胜者后，剩余玩家按生命值排名
+    this.rankPlayers(this.getAlivePlayers(players), 1, round);
+
+    const placements = players
+      .map(player => ({
+        playerId: player.id,
+        name: player.name,
+        archetype: player.archetype,
+        placement: this.placements[player.id].placement,
+        health: this.health[player.id],
+        eliminatedRound: this.health[player.id] <= 0 ? this.placements[player.id].round : undefined,
+        level: player.level,
+        gold: player.gold,
+        units: player.units.map(unit => ({ ...unit, items: [...unit.items] }))
+      }))
+      .sort((a, b) => a.placement - b.placement);
+
+    return {
+      seed,
+      rounds: round,
+      placements,
+      history,
+      poolRemaining: this.pool.getRemainingByCost(),
+      income: this.economy.getIncomeHistory()
+    };
+  }
+
+  private getAlivePlayers(players: Player[]): Player[] {
+    return players.filter(player => this.health[player.id] > 0);
+  }
+
+  // 购物阶段: 先补满上场位置并购买可凑成三连的单位，再按玩家原型决定购买、刷新、升级或储蓄
+  private shop(player: Player, options: MatchOptions): void {
+    const behavior = new PlayerBehaviorSimulator(
+      PLAYER_ARCHETYPES[player.archetype] ?? PLAYER_ARCHETYPES.balanced,
+      this.rng
+    );
+    this.economy.lockShop(player.id, false);
+    this.buyPriorityUnits(player, options);
+
+    // 决策失败 (如备战席已满) 时继续下一次决策，选择储蓄时结束购物阶段
+    for (let i = 0; i < MAX_SHOP_ACTIONS; i++) {
+      const slots = this.economy.getShop(player.id).slots;
+      const offers = slots.filter((unitId): unitId is string => unitId !== null);
+      const unitPrices: Record<string, number> = {};
+      offers.forEach(unitId => {
+        const type = this.catalog[unitId].type;
+        unitPrices[type] = Math.min(unitPrices[type] ?? Infinity, this.economy.getUnitPrice(unitId));
+      });
+      const decision = behavior.simulateTurn(player.gold, player.level, offers.map(unitId => this.catalog[unitId].type), {
+        levelUp: player.level < this.economy.getMaxLevel() ? this.economy.getExperienceCost() : Infinity,
+        reroll: this.economy.getRerollCost(),
+        unit: Infinity,
+        unitPrices
+      });
+
+      if (decision.action === 'buy') {
+        const slot = slots.findIndex(unitId => 
+          unitId !== null && this.catalog[unitId].type === decision.unitToBuy && this.economy.getUnitPrice(unitId) <= player.gold
+        );
+        this.buyUnit(player, slot, options);
+      } else if (decision.action === 'reroll') {
+        if (this.economy.rerollShop(player.id)) {
+          this.buyPriorityUnits(player, options);
+        }
+      } else if (decision.action === 'levelup') {
+        this.economy.buyExperience(player.id);
+      } else {
+        break;
+      }
+    }
+
+    // 商店中有能凑成三连但买不起的单位时锁定商店，留到下回合购买
+    const wanted = this.economy.getShop(player.id).slots.some(unitId =>
+      unitId !== null && this.countCopies(player, unitId) >= COPIES_PER_MERGE - 1
+    );
+    this.economy.lockShop(player.id, wanted);
+  }
+
+  private buyPriorityUnits(player: Player, options: MatchOptions): void {
+    const order = this.economy.getShop(player.id).slots
+      .map((unitId, slot) => ({ unitId, slot }))
+      .filter((offer): offer is { unitId: string; slot: number } => offer.unitId !== null)
+      .sort((a, b) =>
+        this.countCopies(player, b.unitId) - this.countCopies(player, a.unitId) ||
+        this.pool.getCost(b.unitId) - this.pool.getCost(a.unitId)
+      );
+
+    order.forEach(({ unitId, slot }) => {
+      const merges = this.countCopies(player, unitId) >= COPIES_PER_MERGE - 1;
+      if (merges || player.units.length < player.level) {
+        this.buyUnit(player, slot, options);
+      }
+    });
+  }
+
+  // 备战席已满且无法合成时，先出售备战席上最便宜的 1 星单位腾出位置
+  private buyUnit(player: Player, slot: number, options: MatchOptions): boolean {
+    const unitId = this.economy.getShop(player.id).slots[slot];
+    if (!unitId || player.gold < this.economy.getUnitPrice(unitId)) return false;
+
+    const capacity = player.level + (options.benchSize ?? DEFAULT_BENCH_SIZE);
+    const merges = this.countCopies(player, unitId) >= COPIES_PER_MERGE - 1;
+    if (!merges && player.units.length >= capacity) {
+      const spare = player.units
+        .filter(unit => !unit.position && unit.stars === 1 && unit.unitId !== unitId)
+        .sort((a, b) => this.pool.getCost(a.unitId) - this.pool.getCost(b.unitId))[0];
+      if (!spare || this.pool.getCost(spare.unitId) > this.pool.getCost(unitId)) return false;
+      this.economy.sellUnit(player.id, spare.id);
+    }
+
+    return this.economy.buyFromShop(player.id, slot);
+  }
+
+  private countCopies(player: Player, unitId: string): number {
+    return player.units.filter(unit => unit.unitId === unitId && unit.stars === 1).length;
+  }
+
+  // 按星级、费用、等级选出不超过玩家等级数量的上场单位，其余留在备战席 (无位置)
+  private deployBoard(player: Player): void {
+    const ranked = [...player.units].sort((a, b) =>
+      b.stars - a.stars ||
+      this.pool.getCost(b.unitId) - this.pool.getCost(a.unitId) ||
+      b.level - a.level
+    );
+
+    ranked.forEach((unit, index) => {
+      unit.position = index < player.level ? { x: index, y: 0 } : undefined;
+    });
+  }
+
+  // 随机配对存活玩家进行战斗；人数为奇数时最后一名玩家与随机玩家的镜像对战
+  private playCombatRound(alive: Player[], stage: number, options: MatchOptions): MatchFight[] {
+    const order = [...alive];
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = this.rng.nextInt(i + 1);
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+
+    const fights: MatchFight[] = [];
+    for (let i = 0; i + 1 < order.length; i += 2) {
+      fights.push(this.playFight(order[i], order[i + 1], false, stage, options));
+    }
+    if (order.length % 2 === 1) {
+      const home = order[order.length - 1];
+      const others = alive.filter(player => player !== home && player.units.length > 0);
+      const ghost = others.length > 0 ? others[this.rng.nextInt(others.length)] : order[0];
+      fights.push(this.playFight(home, ghost, true, stage, options));
+    }
+
+    return fights;
+  }
+
+  private playFight(home: Player, away: Player, ghost: boolean, stage: number, options: MatchOptions): MatchFight {
+    const homeTeam = this.buildTeam(home, 'alpha');
+    const awayTeam = this.buildTeam(away, 'beta');
+    let winner: MatchFight['winner'];
+    let survivors: { alpha: Unit[]; beta: Unit[] };
+
+    if (homeTeam.length === 0 || awayTeam.length === 0) {
+      // 一方没有上场单位时不进行战斗
+      winner = homeTeam.length > 0 ? 'home' : awayTeam.length > 0 ? 'away' : 'draw';
+      survivors = { alpha: homeTeam, beta: awayTeam };
+    } else {
+      this.battleSystem.setMaxRounds(options.battleRounds ?? DEFAULT_BATTLE_ROUNDS);
+      this.battleSystem.initializeBattle(homeTeam, awayTeam, options.terrain ?? 'plains', this.rng.nextInt(4294967296));
+      while (!this.battleSystem.isCompleted()) {
+        this.battleSystem.executeTurn();
+      }
+
+      const result = this.battleSystem.getWinner();
+      winner = result === 'alpha' ? 'home' : result === 'beta' ? 'away' : 'draw';
+      const teams = this.battleSystem.getTeams();
+      const alive = (units: readonly Unit[]) => units.filter(unit => unit.currentHP > 0 && !unit.summoned);
+      survivors = { alpha: alive(teams.alpha), beta: alive(teams.beta) };
+    }
+
+    const stageDamage = options.stageDamage ?? DEFAULT_STAGE_DAMAGE;
+    const baseDamage = stageDamage[Math.min(stage, stageDamage.length) - 1] ?? 0;
+    const damageFrom = (units: Unit[]) => baseDamage + units.reduce((sum, unit) => sum + (unit.stars ?? 1), 0);
+
+    // 平局时双方都不扣除生命值，连胜/连败保持不变
+    const damage: Record<string, number> = {};
+    if (winner === 'draw') {
+      return { home: home.id, away: away.id, ghost, winner, damage };
+    }
+
+    if (winner === 'away') {
+      damage[home.id] = damageFrom(survivors.beta);
+    } else if (!ghost) {
+      damage[away.id] = damageFrom(survivors.alpha);
+    }
+
+    Object.entries(damage).forEach(([playerId, amount]) => {
+      this.health[playerId] -= amount;
+    });
+    this.economy.updatePlayerStatus(home.id, winner === 'home');
+    if (!ghost) {
+      this.economy.updatePlayerStatus(away.id, winner === 'away');
+    }
+
+    return { home: home.id, away: away.id, ghost, winner, damage };
+  }
+
+  // 由玩家上场单位生成战斗单位；经济事件的属性修正作用于基础属性，星级与装备在 BattleSystem.createUnit 中生效
+  private buildTeam(player: Player, team: Unit['team']): Unit[] {
+    return player.units
+      .filter(unit => unit.position)
+      .map(unit => {
+        const template = this.catalog[unit.unitId];
+        const multiplier = this.economy.getEventMultiplier('unitStats', [unit.unitId, template.type]);
+        const stats = multiplier === 1 ? {} : {
+          maxHP: Math.round(template.maxHP * multiplier),
+          currentHP: Math.round(template.currentHP * multiplier),
+          attack: Math.round(template.attack * multiplier),
+          magicPower: Math.round(template.magicPower * multiplier)
+        };
+        return {
+          ...template,
+          ...stats,
+          id: `${player.id}:${unit.id}`,
+          team,
+          level: unit.level,
+          stars: unit.stars,
+          items: unit.items.length > 0 ? unit.items : template.items,
+          position: undefined
+        };
+      });
+  }
+
+  // 同一回合被淘汰的玩家按剩余生命值排名，生命值高者名次靠前；其单位返还卡池
+  private eliminatePlayers(alive: Player[], round: number): string[] {
+    const eliminated = alive.filter(player => this.health[player.id] <= 0);
+    this.rankPlayers(eliminated, alive.length - eliminated.length + 1, round);
+    eliminated.forEach(player => this.economy.removePlayer(player.id));
+    return eliminated.map(player => player.id);
+  }
+
+  private rankPlayers(players: Player[], firstPlacement: number, round: number): void {
+    [...players]
+      .sort((a, b) => this.health[b.id] - this.health[a.id])
+      .forEach((player, index) => {
+        player.rank = firstPlacement + index;
+        this.placements[player.id] = { placement: player.rank, round };
+      });
+  }
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { PlayerUnit } from '@/types/economy';
+import { mergeUnitCopies } from './StarSystem';
+
+const createCopy = (id: string, unitId: string, overrides: Partial<PlayerUnit> = {}): PlayerUnit => ({
+  id, unitId, level: 1, stars: 1, items: [], ...overrides
+});
+
+describe('mergeUnitCopies', () => {
+  it('三个同星级副本合成高一星级，保留已上场副本的位置并合并装备', () => {
+    const { units, merged } = mergeUnitCopies([
+      createCopy('c1', 'w', { items: ['sword'] }),
+      createCopy('c2', 'w', { position: { x: 2, y: 6 } }),
+      createCopy('c3', 'w', { items: ['shield'] }),
+      createCopy('c4', 'm')
+    ]);
+
+    expect(units.map(unit => [unit.id, unit.stars])).toEqual([['c4', 1], ['c2', 2]]);
+    expect(merged).toHaveLength(1);
+    expect(merged[0]).toMatchObject({ id: 'c2', position: { x: 2, y: 6 } });
+    expect([...merged[0].items].sort()).toEqual(['shield', 'sword']);
+  });
+
+  it('不足三个副本时不合成', () => {
+    const units = [createCopy('c1', 'w'), createCopy('c2', 'w'), createCopy('c3', 'w', { stars: 2 })];
+    expect(mergeUnitCopies(units)).toEqual({ units, merged: [] });
+  });
+
+  it('合成结果可以连锁合成，最高 3 星', () => {
+    const units = [
+      createCopy('c1', 'w', { stars: 2 }),
+      createCopy('c2', 'w', { stars: 2 }),
+      createCopy('c3', 'w'),
+      createCopy('c4', 'w'),
+      createCopy('c5', 'w')
+    ];
+
+    const { units: result, merged } = mergeUnitCopies(units);
+
+    expect(result.map(unit => unit.stars)).toEqual([3]);
+    expect(merged.map(unit => unit.stars)).toEqual([3]);
+    expect(mergeUnitCopies([
+      createCopy('d1', 'w', { stars: 3 }), createCopy('d2', 'w', { stars: 3 }), createCopy('d3', 'w', { stars: 3 })
+    ]).merged).toEqual([]);
+  });
+});
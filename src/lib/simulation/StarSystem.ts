@@ -0,0 +1,94 @@
+// 升星系统: 按星级放大单位属性，并将三个同星级副本合成为更高星级
+import { Unit } from '@/types/battle';
+import { PlayerUnit } from '@/types/economy';
+
+export const MAX_STARS = 3;
+export const COPIES_PER_MERGE = 3;
+
+// 默认属性倍率 (下标为星级 - 1)
+export const DEFAULT_STAR_MULTIPLIERS = [1, 1.8, 3.24];
+
+// 随星级放大的属性
+const STAR_SCALED_STATS = ['maxHP', 'attack', 'magicPower'] as const;
+
+export function clampStars(stars?: number): number {
+  return Math.min(MAX_STARS, Math.max(1, Math.floor(stars ?? 1)));
+}
+
+export function getStarMultiplier(template: Unit, stars?: number): number {
+  const level = clampStars(stars);
+  return template.starUpgrades?.[level]?.statMultiplier ?? DEFAULT_STAR_MULTIPLIERS[level - 1];
+}
+
+// 由 1 星单位数据生成指定星级的战斗单位；技能升级按 2 星、3 星依次叠加
+export function createStarredUnit(template: Unit, stars?: number, items: string[] = template.items ?? []): Unit {
+  const level = clampStars(stars);
+  const unit: Unit = JSON.parse(JSON.stringify(template));
+  const multiplier = getStarMultiplier(template, level);
+
+  if (multiplier !== 1) {
+    STAR_SCALED_STATS.forEach(stat => {
+      unit[stat] = Math.round(template[stat] * multiplier);
+    });
+    unit.currentHP = Math.round(template.currentHP * multiplier);
+  }
+
+  for (let star = 2; star <= level; star++) {
+    Object.entries(template.starUpgrades?.[star]?.skillUpgrades ?? {}).forEach(([skillId, upgrade]) => {
+      const skill = unit.skills?.find(s => s.id === skillId);
+      if (skill) {
+        Object.assign(skill, JSON.parse(JSON.stringify(upgrade)));
+      }
+    });
+  }
+
+  unit.stars = level;
+  if (items.length > 0) {
+    unit.items = [...items];
+  }
+  return unit;
+}
+
+/**
+ * 合成同一单位同星级的副本: 每三个合成一个高一星级的单位，可连锁合成 (如第三个 2 星合成 3 星)。
+ * 优先保留已上场副本的位置，装备转移到合成后的单位上。返回合成后的单位列表与新合成的单位。
+ */
+export function mergeUnitCopies(units: PlayerUnit[]): { units: PlayerUnit[]; merged: PlayerUnit[] } {
+  let remaining = [...units];
+  const merged: PlayerUnit[] = [];
+
+  for (;;) {
+    const group = findMergeGroup(remaining);
+    if (!group) break;
+
+    const copies = [...group]
+      .sort((a, b) => Number(!!b.position) - Number(!!a.position))
+      .slice(0, COPIES_PER_MERGE);
+    const [keeper] = copies;
+    const upgraded: PlayerUnit = {
+      ...keeper,
+      stars: keeper.stars + 1,
+      level: Math.max(...copies.map(copy => copy.level)),
+      items: copies.flatMap(copy => copy.items)
+    };
+
+    remaining = [...remaining.filter(unit => !copies.includes(unit)), upgraded];
+    merged.push(upgraded);
+  }
+
+  return {
+    units: remaining,
+    merged: merged.filter(unit => remaining.includes(unit))
+  };
+}
+
+function findMergeGroup(units: PlayerUnit[]): PlayerUnit[] | undefined {
+  const groups: Record<string, PlayerUnit[]> = {};
+
+  units.forEach(unit => {
+    if (unit.stars >= MAX_STARS) return;
+    (groups[`${unit.unitId}:${unit.stars}`] ??= []).push(unit);
+  });
+
+  return Object.values(groups).find(group => group.length >= COPIES_PER_MERGE);
+}
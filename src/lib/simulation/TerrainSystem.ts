@@ -1,8 +1,11 @@
 
 // 战场环境系统
-export type TerrainType = "plain" | "forest" | "desert" | "mountain" | "water";
+import { TerrainType } from "@/types/battle";
+import { RandomSource } from "@/lib/utils/SeededRandom";
 
-interface TerrainEffect {
+export type { TerrainType };
+
+export interface TerrainEffect {
   speed?: number;       // 移动速度修正
   healing?: number;     // 治疗效果修正
   manaRegen?: number;   // 魔法恢复修正
@@ -11,37 +14,55 @@ interface TerrainEffect {
   burnDamage?: number;     // 灼烧伤害
 }
 
+export const TERRAIN_TYPES: TerrainType[] = [
+  "plains", "forest", "mountains", "desert", "snow", "swamp", "city", "fire", "water"
+];
+
 // 地形效果计算
 export function calculateTerrainImpact(terrainType: TerrainType): TerrainEffect {
   const terrainEffects: Record<TerrainType, TerrainEffect> = {
-    plain: { speed: 1.0 },
+    plains: { speed: 1.0 },
     forest: { speed: 0.8, healing: 1.2 },
     desert: { manaRegen: 0.5, burnDamage: 5 },
-    mountain: { speed: 0.6, damageModifier: 1.1 },
-    water: { speed: 0.7, manaRegen: 1.3 }
+    mountains: { speed: 0.6, damageModifier: 1.1 },
+    water: { speed: 0.7, manaRegen: 1.3 },
+    snow: { speed: 0.7, manaRegen: 0.8 },
+    swamp: { speed: 0.5, healing: 0.8 },
+    city: { healing: 1.1 },
+    fire: { burnDamage: 15, damageModifier: 1.05 }
   };
 
   return terrainEffects[terrainType] || {};
 }
 
+export interface TerrainGenerationOptions {
+  baseTerrain?: TerrainType; // 主地形，未指定时所有地形等概率出现
+  variety?: number;          // 非主地形格子的比例 (0-1)，默认 0 即整张地图为主地形
+  random?: RandomSource;     // 随机数源，传入种子随机数可复现地图
+}
+
 // 地形管理器
 export class TerrainManager {
   private terrainMap: Record<string, TerrainType> = {};
 
-  constructor(mapSize: { width: number; height: number }) {
-    this.generateTerrain(mapSize);
+  constructor(mapSize: { width: number; height: number }, options: TerrainGenerationOptions = {}) {
+    this.generateTerrain(mapSize, options);
   }
 
   // 生成地形
-  private generateTerrain(mapSize: { width: number; height: number }): void {
-    const terrainTypes: TerrainType[] = ["plain", "forest", "desert", "mountain", "water"];
-    
-    // 简单随机生成地形
+  private generateTerrain(mapSize: { width: number; height: number }, options: TerrainGenerationOptions): void {
+    const { baseTerrain, variety = 0, random = { next: () => Math.random() } } = options;
+
     for (let x = 0; x < mapSize.width; x++) {
       for (let y = 0; y < mapSize.height; y++) {
         const position = `${x},${y}`;
-        const randomIndex = Math.floor(Math.random() * terrainTypes.length);
-        this.terrainMap[position] = terrainTypes[randomIndex];
+        // variety 为 0 时不消耗随机数，保证关闭时战斗结果不受地形生成影响
+        if (baseTerrain && (variety <= 0 || random.next() >= variety)) {
+          this.terrainMap[position] = baseTerrain;
+        } else {
+          const randomIndex = Math.floor(random.next() * TERRAIN_TYPES.length);
+          this.terrainMap[position] = TERRAIN_TYPES[randomIndex];
+        }
       }
     }
   }
@@ -49,7 +70,17 @@ export class TerrainManager {
   // 获取指定位置的地形
   getTerrainAt(x: number, y: number): TerrainType {
     const position = `${x},${y}`;
-    return this.terrainMap[position] || "plain";
+    return this.terrainMap[position] || "plains";
+  }
+
+  // 手动设置指定位置的地形
+  setTerrainAt(x: number, y: number, terrainType: TerrainType): void {
+    this.terrainMap[`${x},${y}`] = terrainType;
+  }
+
+  // 获取完整地形图 (key 为 "x,y")
+  getTerrainMap(): Record<string, TerrainType> {
+    return { ...this.terrainMap };
   }
 
   // 获取地形效果
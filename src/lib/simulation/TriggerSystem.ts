@@ -0,0 +1,143 @@
+// 战斗事件与触发器系统
+import { Unit, CombatEventType, TriggerDefinition, SkillEffect } from '@/types/battle';
+import { Faction } from '@/types/balance';
+
+export type { CombatEventType, TriggerDefinition };
+
+export const COMBAT_EVENT_TYPES: CombatEventType[] = [
+  'roundStart', 'beforeAttack', 'afterDamage', 'onCrit', 'onKill', 'onDeath', 'hpBelowThreshold', 'manaFull', 'onBuff'
+];
+
+export const COMBAT_EVENT_LABELS: Record<CombatEventType, string> = {
+  roundStart: '回合开始',
+  beforeAttack: '攻击前',
+  afterDamage: '受到伤害后',
+  onCrit: '暴击时',
+  onKill: '击杀时',
+  onDeath: '阵亡时',
+  hpBelowThreshold: '生命低于阈值',
+  manaFull: '法力回满',
+  onBuff: '增益行动'
+};
+
+export const DEFAULT_HP_THRESHOLD = 0.3;
+
+// 按单位类型订阅的默认触发器: 辅助单位的增益行动按类型提升目标属性，未订阅 onBuff 的单位提升速度
+export const DEFAULT_UNIT_TYPE_TRIGGERS: Record<string, TriggerDefinition[]> = {
+  商人: [{ id: 'merchant-buff', name: '鼓舞', event: 'onBuff', effects: [{ type: 'buff', stat: 'attack', value: 0.2 }] }],
+  Merchant: [{ id: 'merchant-buff', name: '鼓舞', event: 'onBuff', effects: [{ type: 'buff', stat: 'attack', value: 0.2 }] }],
+  牧师: [{ id: 'priest-buff', name: '庇护', event: 'onBuff', effects: [{ type: 'buff', stat: 'defense', value: 0.2 }] }],
+  Priest: [{ id: 'priest-buff', name: '庇护', event: 'onBuff', effects: [{ type: 'buff', stat: 'defense', value: 0.2 }] }]
+};
+
+// BattleSystem 发出的战斗事件；unit 为事件主体，other 为另一方 (攻击目标、伤害来源、被击杀者等)
+export interface CombatEvent {
+  type: CombatEventType;
+  round: number;
+  unit: Unit;
+  other?: Unit;
+  amount?: number;     // 伤害量 (afterDamage/onCrit/hpBelowThreshold)
+  previousHP?: number; // 受伤前的生命值 (hpBelowThreshold)
+}
+
+export type CombatEventListener = (event: CombatEvent) => void;
+
+const EFFECT_TYPES: SkillEffect['type'][] = [
+  'stun', 'debuff', 'dot', 'buff', 'shield', 'taunt', 'lifesteal', 'thorns'
+];
+const STAT_EFFECTS: SkillEffect['type'][] = ['buff', 'debuff'];
+
+/**
+ * 触发器注册表 - 按单位ID保存订阅的触发器，并向外部监听者广播战斗事件
+ */
+export class TriggerRegistry {
+  private triggers: Record<string, TriggerDefinition[]> = {};
+  private fireCounts: Record<string, number> = {};
+  private listeners: CombatEventListener[] = [];
+
+  register(unitId: string, trigger: TriggerDefinition): void {
+    (this.triggers[unitId] ??= []).push(trigger);
+  }
+
+  getTriggers(unitId: string, event: CombatEventType): TriggerDefinition[] {
+    return this.triggers[unitId]?.filter(trigger => trigger.event === event) ?? [];
+  }
+
+  // 记录一次触发，返回是否仍在每场战斗的次数限制内
+  consume(unitId: string, trigger: TriggerDefinition): boolean {
+    const key = `${unitId}:${trigger.id}`;
+    const count = this.fireCounts[key] ?? 0;
+    if (trigger.maxTriggers !== undefined && count >= trigger.maxTriggers) return false;
+
+    this.fireCounts[key] = count + 1;
+    return true;
+  }
+
+  getFireCounts(): Record<string, number> {
+    return { ...this.fireCounts };
+  }
+
+  // 外部订阅所有战斗事件 (分析、界面)，返回取消订阅函数
+  subscribe(listener: CombatEventListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  notify(event: CombatEvent): void {
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  // 新战斗开始时清空单位订阅与触发计数，保留外部监听者
+  reset(): void {
+    this.triggers = {};
+    this.fireCounts = {};
+  }
+}
+
+/**
+ * 解析派系特殊机制的文本定义:
+ * - triggerCondition: 事件名，hpBelowThreshold 可附带阈值，如 "onKill"、"hpBelowThreshold:0.3"
+ * - effect: 以 ";" 分隔的效果，格式为 "类型[:属性]:数值[:持续回合]"，如 "buff:attack:0.2:2;shield:0.1"
+ * scalingFactor 会乘到每个效果的数值上。无法解析时返回 null。
+ */
+export function parseMechanicTrigger(
+  factionId: string,
+  mechanic: NonNullable<Faction['specialMechanics']>[number]
+): TriggerDefinition | null {
+  const [event, thresholdText] = mechanic.triggerCondition.trim().split(':');
+  if (!COMBAT_EVENT_TYPES.includes(event as CombatEventType)) return null;
+
+  const threshold = thresholdText !== undefined ? Number(thresholdText) : undefined;
+  if (threshold !== undefined && Number.isNaN(threshold)) return null;
+
+  const effects: SkillEffect[] = [];
+  for (const part of mechanic.effect.split(';').map(text => text.trim()).filter(Boolean)) {
+    const effect = parseEffect(part, mechanic.scalingFactor ?? 1);
+    if (!effect) return null;
+    effects.push(effect);
+  }
+  if (effects.length === 0) return null;
+
+  return {
+    id: `${factionId}-${mechanic.name}`,
+    name: mechanic.name,
+    event: event as CombatEventType,
+    effects,
+    threshold
+  };
+}
+
+function parseEffect(text: string, scalingFactor: number): SkillEffect | null {
+  const [type, ...args] = text.split(':').map(part => part.trim());
+  if (!EFFECT_TYPES.includes(type as SkillEffect['type'])) return null;
+
+  const stat = STAT_EFFECTS.includes(type as SkillEffect['type']) && args.length > 0 && Number.isNaN(Number(args[0]))
+    ? args.shift() as SkillEffect['stat']
+    : undefined;
+  const [value = 0, duration] = args.map(Number);
+  if (Number.isNaN(value) || (duration !== undefined && Number.isNaN(duration))) return null;
+
+  return { type: type as SkillEffect['type'], value: value * scalingFactor, stat, duration };
+}
@@ -1,48 +1,124 @@
+import { Unit, ActionType } from "@/types/battle";
 
-import { Unit, ActionType, TargetType } from "@/types/battle";
+// 提供给AI的只读战场视图，AI 只能通过它观察战场
+export interface BattleView {
+  readonly round: number;
+  readonly self: Readonly<Unit>;
+  readonly allies: ReadonlyArray<Readonly<Unit>>;  // 存活的友方单位 (不含自身)
+  readonly enemies: ReadonlyArray<Readonly<Unit>>; // 存活的敌方单位
+  getDistance(a: Readonly<Unit>, b: Readonly<Unit>): number;
+  getRange(unit: Readonly<Unit>): number;
+  random(): number; // 战斗随机数源，保证相同种子得到相同决策
+}
+
+export interface AIDecision {
+  action: ActionType;
+  targetId?: string; // 未指定或目标无效时由战斗系统选择默认目标
+  skillId?: string;  // 指定释放的技能，未指定时释放伤害最高的可用技能
+}
+
+// 治疗与增益的法力消耗
+export const HEAL_MANA_COST = 30;
+export const BUFF_MANA_COST = 20;
+
+// 单位控制器接口，可按单位类型注册到 BattleSystem
+export interface UnitController {
+  decideAction(view: BattleView): AIDecision;
+}
+
+export type UnitRole = "healer" | "support" | "assassin" | "fighter";
+
+// 默认职业定位，可通过配置按单位类型注册 UnitAI(role) 覆盖
+export const DEFAULT_UNIT_ROLES: Record<string, UnitRole> = {
+  Priest: "healer",
+  牧师: "healer",
+  Merchant: "support",
+  商人: "support",
+  Assassin: "assassin",
+  刺客: "assassin"
+};
+
+const CASTER_TYPES = ["Mage", "法师"];
+
+export function getUnitRole(unit: Readonly<Unit>): UnitRole {
+  return DEFAULT_UNIT_ROLES[unit.type] ?? "fighter";
+}
+
+// 战斗单位AI决策系统，按职业定位提供默认行为
+export class UnitAI implements UnitController {
+  // 未指定定位时根据单位类型推断
+  constructor(private role?: UnitRole) {}
+
+  decideAction(view: BattleView): AIDecision {
+    const unit = view.self;
+    const role = this.role ?? getUnitRole(unit);
 
-// 战斗单位AI决策系统
-export class UnitAI {
-  constructor(private unit: Unit) {}
+    // 治疗者优先治疗受伤的队友
+    if (role === "healer") {
+      const woundedAllies = view.allies.filter(a => a.currentHP < a.maxHP * 0.7);
+      if (woundedAllies.length > 0 && unit.currentMana >= HEAL_MANA_COST) {
+        return { action: "heal", targetId: this.findSupportTarget(view).id };
+      }
+    }
 
-  decideAction(): { action: ActionType; targetId?: string } {
-    // 低生命值时的防御或逃跑行为
-    if (this.unit.currentHP / this.unit.maxHP < 0.3) {
-      return {
-        action: Math.random() < 0.7 ? "defend" : "retreat",
-      };
+    // 根据法强与攻击的比较决定使用技能的倾向
+    const availableSkills = unit.skills?.filter(skill =>
+      skill.manaCost <= unit.currentMana && skill.currentCooldown === 0
+    ) || [];
+
+    if (availableSkills.length > 0) {
+      const skillChance = unit.magicPower > unit.attack ? 0.7 : 0.4;
+      if (view.random() < skillChance) {
+        return { action: "skill", targetId: this.findTarget(view, role)?.id };
+      }
     }
 
-    // 检查是否有敌人在攻击范围内
-    const target = this.findTarget();
-    if (target) {
-      // 根据魔法值决定使用普通攻击还是技能
-      if (this.unit.currentMana > 50) {
-        return {
-          action: "skill",
-          targetId: target.id,
-        };
-      } else {
-        return {
-          action: "attack",
-          targetId: target.id,
-        };
+    if (role === "support" && view.random() < 0.3 && unit.currentMana >= BUFF_MANA_COST) {
+      return { action: "buff", targetId: this.findSupportTarget(view).id };
+    }
+
+    // 低生命值时倾向防御
+    if (unit.currentHP < unit.maxHP * 0.3 && view.random() < 0.4) {
+      return { action: "defend" };
+    }
+
+    return { action: "attack", targetId: this.findTarget(view, role)?.id };
+  }
+
+  // 优先选择射程内生命值最低的敌人，刺客优先攻击法师
+  private findTarget(view: BattleView, role: UnitRole): Readonly<Unit> | null {
+    if (view.enemies.length === 0) return null;
+
+    const range = view.getRange(view.self);
+    const inRange = view.enemies.filter(e => view.getDistance(view.self, e) <= range);
+    let candidates = inRange.length > 0 ? inRange : view.enemies;
+
+    if (role === "assassin") {
+      const casters = candidates.filter(e => CASTER_TYPES.includes(e.type));
+      if (casters.length > 0) {
+        candidates = casters;
       }
     }
 
-    // 没有目标时前进
-    return { action: "move" };
+    return candidates.reduce((lowest, current) =>
+      current.currentHP < lowest.currentHP ? current : lowest
+    );
   }
 
-  private findTarget(): Unit | null {
-    // 这里会连接到战场状态来查找合适的目标
-    // 简化实现，实际项目中需要连接到战场单位管理器
-    return null;
+  // 选择生命比例最低的友方单位 (包括自身)
+  private findSupportTarget(view: BattleView): Readonly<Unit> {
+    return [view.self, ...view.allies].reduce((mostWounded, current) =>
+      (current.currentHP / current.maxHP) < (mostWounded.currentHP / mostWounded.maxHP)
+        ? current : mostWounded
+    );
   }
 
-  // 评估当前场上威胁
-  evaluateThreat(): number {
-    // 根据敌方单位数量、类型和生命值计算威胁度
-    return Math.random() * 100; // 示例实现
+  // 评估当前场上威胁: 射程内敌人的攻击力总和相对自身剩余生命的比例 (0-100)
+  evaluateThreat(view: BattleView): number {
+    const incoming = view.enemies
+      .filter(e => view.getDistance(e, view.self) <= view.getRange(e))
+      .reduce((sum, e) => sum + Math.max(e.attack, e.magicPower), 0);
+
+    return Math.min(100, Math.round((incoming / Math.max(1, view.self.currentHP)) * 100));
   }
 }
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { SeededRandom } from './SeededRandom';
+
+const take = (random: SeededRandom, count: number) => Array.from({ length: count }, () => random.next());
+
+describe('SeededRandom', () => {
+  it('相同种子产生相同序列', () => {
+    expect(take(new SeededRandom(42), 20)).toEqual(take(new SeededRandom(42), 20));
+  });
+
+  it('不同种子产生不同序列', () => {
+    expect(take(new SeededRandom(42), 20)).not.toEqual(take(new SeededRandom(43), 20));
+  });
+
+  it('next 返回 [0, 1) 区间的数', () => {
+    take(new SeededRandom(7), 1000).forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+
+  it('nextInt 返回 [0, max) 区间的整数并覆盖所有取值', () => {
+    const random = new SeededRandom(1);
+    const seen = new Set<number>();
+    for (let i = 0; i < 500; i++) {
+      const value = random.nextInt(6);
+      expect(Number.isInteger(value)).toBe(true);
+      seen.add(value);
+    }
+    expect([...seen].sort()).toEqual([0, 1, 2, 3, 4, 5]);
+  });
+
+  it('种子按 32 位无符号整数处理', () => {
+    expect(new SeededRandom(-1).next()).toBe(new SeededRandom(4294967295).next());
+    expect(new SeededRandom(123).getSeed()).toBe(123);
+  });
+});
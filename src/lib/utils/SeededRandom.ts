@@ -0,0 +1,40 @@
+// 可复现随机数生成器
+
+// 随机数源接口，返回 [0, 1) 区间的浮点数
+export interface RandomSource {
+  next(): number;
+}
+
+// 根据种子创建随机数源的工厂函数
+export type RandomSourceFactory = (seed: number) => RandomSource;
+
+// 基于 mulberry32 算法的种子随机数生成器，相同种子产生相同序列
+export class SeededRandom implements RandomSource {
+  private state: number;
+
+  constructor(private readonly seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // 返回 [0, max) 区间的整数
+  nextInt(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  getSeed(): number {
+    return this.seed;
+  }
+}
+
+// 生成新的随机种子 (32位无符号整数)
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
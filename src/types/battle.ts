@@ -3,15 +3,56 @@ export type UnitType = string;
 export type RaceType = string;
 export type ProfessionType = string;
 export type FactionType = string;
-export type TerrainType = "plains" | "forest" | "mountains" | "desert" | "snow" | "swamp" | "city" | "fire";
-export type ActionType = 'move' | 'attack' | 'defend' | 'cast' | 'skill' | 'heal' | 'buff' | 'retreat' | 'recover' | 'passive';
+export type ElementType = string;
+export type TerrainType = "plains" | "forest" | "mountains" | "desert" | "snow" | "swamp" | "city" | "fire" | "water";
+export type ActionType = 'move' | 'attack' | 'defend' | 'cast' | 'skill' | 'heal' | 'buff' | 'retreat' | 'recover' | 'passive' | 'expire' | 'reaction' | 'summon' | 'reflect';
 export type TargetType = 'self' | 'ally' | 'enemy' | 'all';
+// 技能范围: 单体、目标方全体、目标所在行/列、目标周围半径、连锁弹射
+export type SkillShape = 'single' | 'all' | 'row' | 'column' | 'radius' | 'chain';
 
 export interface SkillEffect {
-  type: 'stun' | 'debuff' | 'dot' | 'buff';
+  type: 'stun' | 'debuff' | 'dot' | 'buff' | 'shield' | 'taunt' | 'lifesteal' | 'thorns' | 'summon';
+  // buff/debuff: 属性比例; dot: 施法者法术强度比例; shield: 受益者最大生命比例;
+  // lifesteal/thorns: 吸血/反伤比例; taunt/summon: 不使用
   value: number;
   chance?: number;
-  duration?: number;
+  duration?: number; // stun: 行动次数; shield: 不使用 (直到被打破); 其他: 回合数
+  stat?: 'attack' | 'defense' | 'magicPower' | 'magicResistance' | 'speed' | 'critRate' | 'critDamage' | 'lifesteal' | 'thorns';
+  summon?: SummonTemplate; // summon: 召唤物模板
+}
+
+// 召唤物模板: 属性按召唤者 (或死亡单位) 的基础属性缩放
+export interface SummonTemplate {
+  name: string;
+  type: UnitType;
+  statScale: number; // 属性缩放比例
+  count?: number;    // 召唤数量，默认 1
+  overrides?: Partial<Pick<Unit, 'range' | 'moveSpeed' | 'skills' | 'behaviorTree' | 'critRate' | 'critDamage'>>;
+}
+
+// 战斗中带持续时间的状态 (不修改属性的控制类效果)
+export interface StatusEffect {
+  id: string;
+  kind: 'stun' | 'taunt'; // taunt: 只能以 sourceId 对应的单位为目标
+  sourceId: string;
+  remainingRounds?: number;  // 每回合结束时递减
+  remainingActions?: number; // 单位每次行动(或被跳过)时递减
+  appliedRound: number;
+}
+
+// 增益/减益效果，由 BuffStackManager 管理
+export interface Buff {
+  id: string;
+  name: string;
+  type: "positive" | "negative";
+  source: string; // 来源ID
+  power: number;
+  duration: number;
+  stackable: boolean;
+  effects: {
+    [key: string]: number; // 影响的属性和数值
+  };
+  tickDamage?: number; // 每回合造成的持续伤害
 }
 
 export interface Skill {
@@ -23,8 +64,61 @@ export interface Skill {
   cooldown: number;
   currentCooldown: number;
   effects?: SkillEffect[];
+  element?: ElementType; // 技能元素，命中后在目标身上留下元素附着
+  targetType?: TargetType; // 默认 enemy；ally/self 技能以 damage 作为治疗量，damage 为 0 时只结算效果
+  shape?: SkillShape;      // 默认 single
+  radius?: number;         // radius: 以主目标为中心的格数，默认 1
+  chainCount?: number;     // chain: 额外弹射次数，默认 2
+  chainFalloff?: number;   // chain: 每次弹射的效果衰减倍率，默认 0.7
+  castTime?: number;       // 连续时间模式下的施法时间 (秒)，默认 0.5
 }
 
+// 升星配置: 达到对应星级时的属性倍率 (相对 1 星) 与技能升级 (key 为技能ID)
+export interface StarUpgrade {
+  statMultiplier?: number;
+  skillUpgrades?: Record<string, Partial<Omit<Skill, 'id' | 'currentCooldown'>>>;
+}
+
+// 单位身上附着的元素，另一种元素命中时可触发元素反应
+export interface ElementAura {
+  element: ElementType;
+  sourceId: string;
+  remainingRounds: number;
+}
+
+// 战斗事件类型，触发器订阅这些事件执行效果
+export type CombatEventType =
+  | 'roundStart'        // 回合开始 (每个存活单位)
+  | 'beforeAttack'      // 普攻或技能结算前 (攻击者)
+  | 'afterDamage'       // 受到伤害后 (受伤单位)
+  | 'onCrit'            // 造成暴击 (攻击者)
+  | 'onKill'            // 击败敌人 (击杀者)
+  | 'onDeath'           // 被击败 (阵亡单位)
+  | 'hpBelowThreshold'  // 生命比例首次跌破阈值
+  | 'manaFull'          // 法力值回满
+  | 'onBuff';           // 执行增益行动 (施法者，另一方为增益目标)
+
+// 数据驱动的触发器: 事件发生时对事件中的另一方 (无则对自身) 结算技能效果
+export interface TriggerDefinition {
+  id: string;
+  name: string;
+  event: CombatEventType;
+  effects: SkillEffect[];
+  threshold?: number;   // hpBelowThreshold 的生命比例，默认 0.3
+  chance?: number;      // 触发概率，默认必定触发
+  maxTriggers?: number; // 每场战斗最多触发次数
+}
+
+// 行为树: 由 selector/sequence 组合 condition/action 节点，在单位行动时自上而下求值
+export type BehaviorConditionType = 'selfHpBelow' | 'allyHpBelow' | 'enemyInRange' | 'skillReady' | 'manaAtLeast' | 'chance';
+export type BehaviorTargetSelector = 'lowestHpEnemy' | 'nearestEnemy' | 'lowestHpAlly' | 'self';
+
+export type BehaviorNode =
+  | { type: 'selector'; children: BehaviorNode[] }  // 依次尝试子节点，直到一个成功
+  | { type: 'sequence'; children: BehaviorNode[] }  // 依次执行子节点，任一失败即失败
+  | { type: 'condition'; condition: BehaviorConditionType; value?: number; skillId?: string }
+  | { type: 'action'; action: ActionType; target?: BehaviorTargetSelector; skillId?: string };
+
 export interface Unit {
   id: string;
   name: string;
@@ -33,6 +127,9 @@ export interface Unit {
   profession?: ProfessionType;
   faction?: FactionType;
   level: number;
+  stars?: number; // 星级 (1-3)；单位数据保存 1 星属性，进入战斗时按星级放大
+  starUpgrades?: Record<number, StarUpgrade>; // 按星级 (2、3) 配置，未配置时使用默认倍率
+  items?: string[]; // 装备的物品ID
   attack: number;
   defense: number;
   magicPower: number;
@@ -44,6 +141,13 @@ export interface Unit {
   currentMana?: number;
   critRate: number;
   critDamage: number;
+  lifesteal?: number; // 造成伤害的吸血比例 (普攻与技能)
+  thorns?: number;    // 受到直接伤害时反弹给攻击者的比例
+  shield?: number;    // 当前护盾值，优先于生命值吸收伤害
+  range?: number;     // 攻击距离 (格)，1 为近战
+  moveSpeed?: number; // 每次行动最多移动的格数
+  attackSpeed?: number; // 连续时间模式下每秒行动次数，未设置时由速度推算
+  behaviorTree?: BehaviorNode; // 自定义AI行为树，优先于按类型注册的控制器
   abilities?: string[];
   skills?: Skill[];
   team: "alpha" | "beta";
@@ -52,8 +156,18 @@ export interface Unit {
     y: number;
   };
   status?: 'idle' | 'attacking' | 'defending' | 'casting' | 'moving' | 'stunned' | 'dead';
+  statusEffects?: StatusEffect[];
+  buffs?: Buff[];
+  elementAuras?: ElementAura[];
+  onDeathSummon?: SummonTemplate; // 死亡时生成的单位 (如分裂)
+  triggers?: TriggerDefinition[]; // 被动、装备等订阅的战斗事件触发器
+  summoned?: boolean;  // 战斗中召唤生成的单位，不计入单位类型胜率统计
+  summonerId?: string;
 }
 
+// 战斗模式: 按速度排序的回合制，或按固定时间步长推进的连续时间模式
+export type CombatMode = 'turnBased' | 'realtime';
+
 export interface BattleState {
   id: string;
   round: number;
@@ -66,6 +180,7 @@ export interface BattleState {
   terrain: {
     type: TerrainType;
     effects: Record<string, number>;
+    tiles?: Record<string, TerrainType>; // 逐格地形，key 为 "x,y"
   };
   log: BattleLogEntry[];
   environmentEffects: boolean;
@@ -76,6 +191,13 @@ export interface BattleState {
     beta: string;
   }[];
   winner?: 'alpha' | 'beta' | 'draw';
+  seed?: number; // 随机种子，用于复现战斗
+  combatMode?: CombatMode;
+  elapsedTime?: number; // 连续时间模式下已经过的战斗时间 (秒)
+  board?: {
+    width: number;
+    height: number;
+  };
 }
 
 export interface BattleLogEntry {
@@ -87,6 +209,9 @@ export interface BattleLogEntry {
   value?: number;
   message: string;
   skillId?: string;
+  path?: { x: number; y: number }[]; // move 行动经过的格子 (含起点)
+  reaction?: string; // 触发的元素反应组合，如 "fire+water"
+  time?: number;     // 连续时间模式下的战斗时间 (秒)
 }
 
 export interface BattleConfiguration {
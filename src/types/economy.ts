@@ -70,7 +70,7 @@ export interface EconomyEvent {
   effects: {
     type: "marketPrice" | "dropRate" | "unitStats" | "goldIncome" | "expGain";
     target: string; // 目标ID或"all"
-    modifier: number;
+    modifier: number; // 修正比例，如 0.2 表示 +20%，-0.5 表示 -50%
   }[];
   active: boolean;
   roundsLeft: number;
@@ -101,6 +101,57 @@ export interface EconomyConfiguration {
   interestRate?: number;
   marketVolatility?: number;
   priceFluctuation?: number;
+  streakBonus?: {
+    win: number[];  // 下标为连胜场数 - 1，超出部分沿用最后一项
+    lose: number[];
+  };
+  
+  // 商店与共享卡池
+  shopSlots?: number;     // 商店格数，默认5
+  rerollCost?: number;    // 刷新商店费用，默认2
+  shopOdds?: number[][];  // 按玩家等级的 1-5 费单位出现概率
+  
+  // 经验与等级 (levelCosts[i] 为从 i+1 级升到 i+2 级所需经验)
+  experienceCost?: number;       // 购买一次经验的金币，默认4
+  experiencePerPurchase?: number; // 每次购买获得的经验，默认4
+  passiveExperience?: number;    // 每回合自动获得的经验，默认2
+  
+  // 经济事件: 指定回合触发，或每回合按概率随机触发 (事件未激活时才会判定)
+  scheduledEvents?: {
+    round: number;
+    event: EconomyEvent;
+  }[];
+  randomEvents?: {
+    event: EconomyEvent;
+    probability: number;
+  }[];
+}
+
+// 单个玩家一回合的收入明细
+export interface IncomeBreakdown {
+  round: number;
+  playerId: string;
+  goldBefore: number; // 发放收入前的金币 (用于计算利息)
+  base: number;
+  interest: number;
+  result: number;     // 上回合胜利/失败奖励
+  streak: number;     // 连胜/连败奖励
+  event: number;      // 经济事件对收入的修正
+  total: number;
+}
+
+// 回合日志: 经济事件的开始与结束
+export interface EconomyLogEntry {
+  round: number;
+  type: "eventStart" | "eventEnd";
+  eventId: string;
+  message: string;
+}
+
+// 玩家商店: 空格为 null；锁定时回合开始不自动刷新
+export interface PlayerShop {
+  slots: (string | null)[];
+  locked: boolean;
 }
 
 export interface BalanceData {
@@ -120,4 +171,7 @@ export interface BalanceData {
     winRate: number;
     playRate: number;
   }[];
+  reactionCounts?: {
+    [combination: string]: number; // 元素反应触发次数
+  };
 }